@@ -6,6 +6,8 @@ const config = {
   transform: {
     '^.+\\.tsx?$': 'ts-jest',
   },
+  // goobs-encryption is published as TypeScript source
+  transformIgnorePatterns: ['/node_modules/(?!goobs-encryption/)'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
@@ -0,0 +1,13 @@
+// Stands in for the goobs-testing loggers in tests, which would otherwise write log files
+function createLogger() {
+  return {
+    initializeLogger: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+}
+
+export const ServerLogger = createLogger();
+export const ClientLogger = createLogger();
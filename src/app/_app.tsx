@@ -1,8 +1,14 @@
 import React from 'react';
 import type { AppProps } from 'next/app';
+import { CacheHydrationProvider } from '../hooks/hydration.client';
 
+// Pages hand their `dehydrate()` result to the provider as the `cacheState` prop
 const MyApp = ({ Component, pageProps }: AppProps) => {
-  return <Component {...pageProps} />;
+  return (
+    <CacheHydrationProvider state={pageProps.cacheState}>
+      <Component {...pageProps} />
+    </CacheHydrationProvider>
+  );
 };
 
 export default MyApp;
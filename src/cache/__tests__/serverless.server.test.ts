@@ -0,0 +1,327 @@
+import { createIdentifierToken } from '../../utils/apiAuth.server';
+import { createWorkerEnv } from '../../testing/workerEnv';
+import { autoTuner } from '../../utils/autoTune';
+import { emptyCounts } from '../../utils/stats';
+import { createServerlessWorker, serverless } from '../serverless.server';
+
+const { env, bucket } = createWorkerEnv({ CACHE_IDENTIFIER_TOKEN_SECRET: 'identifier-secret' });
+const worker = createServerlessWorker();
+
+interface SendOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Bearer token; an empty string sends no credentials. */
+  token?: string;
+  /** Sent as JSON. */
+  body?: unknown;
+}
+
+function send(
+  path: string,
+  { method = 'GET', headers = {}, token = 'test-token', body }: SendOptions = {},
+): Promise<Response> {
+  return worker.fetch(
+    new Request(`https://cache.example${path}`, {
+      method,
+      headers: token ? { ...headers, Authorization: `Bearer ${token}` } : headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    env,
+  );
+}
+
+beforeEach(() => serverless.clear(env));
+
+describe('authentication', () => {
+  it('rejects requests without credentials', async () => {
+    const response = await send('/v1/alice/prefs', { token: '' });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+  });
+
+  it('rejects an unknown bearer token', async () => {
+    expect((await send('/v1/alice/prefs', { token: 'wrong' })).status).toBe(401);
+  });
+
+  it('limits identifier tokens to their own identifier', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'alice');
+    const own = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      token,
+      body: { value: { theme: 'dark' } },
+    });
+    expect(own.status).toBe(204);
+    expect((await send('/v1/bob/prefs', { token })).status).toBe(403);
+    expect((await send('/clear', { method: 'POST', token })).status).toBe(403);
+  });
+});
+
+describe('/v1/:identifier/:storeName', () => {
+  it('stores, reads and removes an entry', async () => {
+    const put = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      body: { value: { theme: 'dark' } },
+    });
+    expect(put.status).toBe(204);
+    const etag = put.headers.get('ETag');
+    expect(etag).toMatch(/^".+"$/);
+    expect(bucket.objects.size).toBeGreaterThan(0);
+
+    const get = await send('/v1/alice/prefs');
+    expect(get.status).toBe(200);
+    expect(get.headers.get('ETag')).toBe(etag);
+    expect(await get.json()).toEqual({ theme: 'dark' });
+
+    expect((await send('/v1/alice/prefs', { method: 'DELETE' })).status).toBe(204);
+    expect((await send('/v1/alice/prefs')).status).toBe(404);
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const put = await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1 } });
+    const etag = put.headers.get('ETag')!;
+    const get = await send('/v1/alice/prefs', { headers: { 'If-None-Match': etag } });
+    expect(get.status).toBe(304);
+    expect(get.headers.get('ETag')).toBe(etag);
+  });
+
+  it('serves HEAD without a body', async () => {
+    await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1 } });
+    const head = await send('/v1/alice/prefs', { method: 'HEAD' });
+    expect(head.status).toBe(200);
+    expect(head.headers.get('ETag')).toBeTruthy();
+    expect(await head.text()).toBe('');
+  });
+
+  it('applies If-Match and If-None-Match preconditions to writes', async () => {
+    const first = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      headers: { 'If-None-Match': '*' },
+      body: { value: 1 },
+    });
+    expect(first.status).toBe(204);
+    const created = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      headers: { 'If-None-Match': '*' },
+      body: { value: 2 },
+    });
+    expect(created.status).toBe(412);
+
+    const etag = first.headers.get('ETag')!;
+    const updated = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      headers: { 'If-Match': etag },
+      body: { value: 3 },
+    });
+    expect(updated.status).toBe(204);
+    const stale = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      headers: { 'If-Match': etag },
+      body: { value: 4 },
+    });
+    expect(stale.status).toBe(412);
+    expect(await (await send('/v1/alice/prefs')).json()).toBe(3);
+  });
+
+  it('rejects malformed bodies and options', async () => {
+    const invalidJson = await worker.fetch(
+      new Request('https://cache.example/v1/alice/prefs', {
+        method: 'PUT',
+        headers: { Authorization: 'Bearer test-token' },
+        body: '{',
+      }),
+      env,
+    );
+    expect(invalidJson.status).toBe(400);
+    expect((await send('/v1/alice/prefs', { method: 'PUT', body: { other: 1 } })).status).toBe(400);
+    const options = await send('/v1/alice/prefs', {
+      method: 'PUT',
+      body: { value: 1, options: 'soon' },
+    });
+    expect(options.status).toBe(400);
+  });
+
+  it('rejects other methods', async () => {
+    expect((await send('/v1/alice/prefs', { method: 'PATCH', body: {} })).status).toBe(405);
+  });
+});
+
+describe('/v1/:identifier', () => {
+  it('lists and clears one identifier', async () => {
+    await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1 } });
+    await send('/v1/alice/cart', { method: 'PUT', body: { value: 2 } });
+    await send('/v1/bob/prefs', { method: 'PUT', body: { value: 3 } });
+
+    const list = await send('/v1/alice');
+    expect(list.status).toBe(200);
+    const { entries } = (await list.json()) as { entries: { storeName: string }[] };
+    expect(entries.map(({ storeName }) => storeName).sort()).toEqual(['cart', 'prefs']);
+
+    const cleared = await send('/v1/alice', { method: 'DELETE' });
+    expect(await cleared.json()).toEqual({ removed: 2 });
+    expect((await send('/v1/alice/prefs')).status).toBe(404);
+    expect((await send('/v1/bob/prefs')).status).toBe(200);
+  });
+
+  it('lists expiration and access metadata', async () => {
+    await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1, options: { ttl: 60000 } } });
+
+    const { entries } = (await (await send('/v1/alice')).json()) as {
+      entries: { expirationDate?: number; lastAccessedDate?: number }[];
+    };
+    expect(entries).toHaveLength(1);
+    expect(entries[0].expirationDate).toBeGreaterThan(Date.now());
+    expect(entries[0].lastAccessedDate).toEqual(expect.any(Number));
+  });
+
+  it('validates the page size', async () => {
+    expect((await send('/v1/alice?limit=0')).status).toBe(400);
+  });
+});
+
+describe('/v1/batch', () => {
+  it('runs each operation on the allowed items only', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'alice');
+    const set = await send('/v1/batch/set', {
+      method: 'POST',
+      token,
+      body: {
+        items: [
+          { identifier: 'alice', storeName: 'prefs', value: 1 },
+          { identifier: 'bob', storeName: 'prefs', value: 2 },
+        ],
+      },
+    });
+    const { results } = (await set.json()) as { results: { ok: boolean }[] };
+    expect(results.map(({ ok }) => ok)).toEqual([true, false]);
+
+    const get = await send('/v1/batch/get', {
+      method: 'POST',
+      body: {
+        items: [
+          { identifier: 'alice', storeName: 'prefs' },
+          { identifier: 'bob', storeName: 'prefs' },
+        ],
+      },
+    });
+    const read = (await get.json()) as { results: { value?: unknown }[] };
+    expect(read.results.map(({ value }) => value)).toEqual([1, null]);
+  });
+
+  it('rejects items without an identifier and store name', async () => {
+    const response = await send('/v1/batch/get', {
+      method: 'POST',
+      body: { items: [{ identifier: 'alice' }] },
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('legacy routes', () => {
+  it('sets, gets and removes through the POST routes', async () => {
+    const entry = { identifier: 'alice', storeName: 'prefs' };
+    expect((await send('/set', { method: 'POST', body: { ...entry, value: 'x' } })).status).toBe(
+      200,
+    );
+    expect(await (await send('/get', { method: 'POST', body: entry })).json()).toBe('x');
+    await send('/remove', { method: 'POST', body: entry });
+    expect((await send('/v1/alice/prefs')).status).toBe(404);
+  });
+
+  it('clears the cache with an admin credential', async () => {
+    await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1 } });
+    expect((await send('/clear', { method: 'POST' })).status).toBe(200);
+    expect((await send('/v1/alice/prefs')).status).toBe(404);
+  });
+});
+
+describe('/stats', () => {
+  it('counts entries per store as they are written and removed', async () => {
+    await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1 } });
+    await send('/v1/bob/prefs', { method: 'PUT', body: { value: 2 } });
+    await send('/v1/alice/cart', { method: 'PUT', body: { value: 3 } });
+    await send('/v1/alice/cart', { method: 'PUT', body: { value: 4 } });
+    await send('/v1/bob/prefs', { method: 'DELETE' });
+
+    const { stores } = (await (await send('/stats')).json()) as {
+      stores: Record<string, { entries: number; bytes: number }>;
+    };
+    expect(stores.prefs.entries).toBe(1);
+    expect(stores.cart.entries).toBe(1);
+    expect(stores.cart.bytes).toBe(bucket.objects.get('alice:cart')!.body.length);
+  });
+
+  it('needs read access to every identifier', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'alice');
+    expect((await send('/stats', { token })).status).toBe(403);
+  });
+});
+
+describe('scheduled cleanup', () => {
+  it('deletes expired entries and stops serving them from memory', async () => {
+    await send('/v1/alice/prefs', { method: 'PUT', body: { value: 1, options: { ttl: 60000 } } });
+    expect((await send('/v1/alice/prefs')).status).toBe(200);
+
+    // Run the cleanup after the entry expired, then read it before it would have
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+    try {
+      await worker.scheduled({} as Parameters<typeof worker.scheduled>[0], env);
+    } finally {
+      clock.mockRestore();
+    }
+
+    expect(bucket.objects.has('alice:prefs')).toBe(false);
+    expect((await send('/v1/alice/prefs')).status).toBe(404);
+  });
+});
+
+describe('eviction', () => {
+  it('keeps a bucket larger than one eviction pass within cacheSize', async () => {
+    const count = 10050;
+    const expirationDate = Date.now() + 3600000;
+    const body = JSON.stringify({ value: 1, expirationDate });
+    for (let i = 0; i < count; i++) {
+      await bucket.put(`user${String(i).padStart(5, '0')}:prefs`, body, {
+        customMetadata: {
+          hitCount: '0',
+          lastAccessedDate: String(i),
+          expirationDate: String(expirationDate),
+        },
+      });
+    }
+    // Flush the statistics of the clear before seeding the totals of the entries above
+    await serverless.stats(env);
+    await bucket.put(
+      '__stats__',
+      JSON.stringify({
+        counts: emptyCounts(),
+        since: Date.now(),
+        stores: { prefs: { entries: count, bytes: count * body.length } },
+      }),
+    );
+
+    await worker.scheduled({} as Parameters<typeof worker.scheduled>[0], env);
+
+    const keys = [...bucket.objects.keys()].filter((key) => key !== '__stats__');
+    expect(keys).toHaveLength(10000);
+    expect(bucket.objects.has('user00049:prefs')).toBe(false);
+    expect(bucket.objects.has('user00050:prefs')).toBe(true);
+  });
+});
+
+describe('/v1/tuning', () => {
+  it('returns the auto-tuning report to admin credentials', async () => {
+    const response = await send('/v1/tuning');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(JSON.parse(JSON.stringify(autoTuner.getReport())));
+  });
+
+  it('needs the admin action', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'tuning');
+    expect((await send('/v1/tuning', { token })).status).toBe(403);
+  });
+});
+
+it('answers unknown paths with 404', async () => {
+  expect((await send('/elsewhere')).status).toBe(404);
+});
@@ -0,0 +1,110 @@
+import { createIdentifierToken } from '../../utils/apiAuth.server';
+import { createWorkerEnv } from '../../testing/workerEnv';
+import { createServerlessWorker, serverless } from '../serverless.server';
+import { twoLayer } from '../twoLayer.client';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+const { env } = createWorkerEnv({ CACHE_IDENTIFIER_TOKEN_SECRET: 'identifier-secret' });
+const worker = createServerlessWorker();
+const storage = new MemoryStorage();
+// Routes the client's requests to the worker in this process
+const workerFetch = jest.fn<Promise<Response>, Parameters<typeof fetch>>((input, init) =>
+  worker.fetch(new Request(input, init), env),
+);
+
+beforeAll(() => {
+  Object.defineProperty(globalThis, 'sessionStorage', { value: storage, configurable: true });
+});
+
+afterAll(() => {
+  Reflect.deleteProperty(globalThis, 'sessionStorage');
+});
+
+beforeEach(async () => {
+  await serverless.clear(env);
+  storage.clear();
+  workerFetch.mockClear();
+  twoLayer.updateConfig({
+    serverlessUrl: 'https://cache.example',
+    authToken: 'test-token',
+    fetch: workerFetch,
+  });
+});
+
+it('writes through to the worker and reads back from it', async () => {
+  await twoLayer.update('alice', 'prefs', { theme: 'dark' });
+  storage.clear();
+
+  expect(await twoLayer.get('alice', 'prefs')).toEqual({ theme: 'dark' });
+  expect(workerFetch).toHaveBeenCalledTimes(2);
+});
+
+it('serves repeated reads from the session layer', async () => {
+  await twoLayer.update('alice', 'prefs', 1);
+  workerFetch.mockClear();
+
+  expect(await twoLayer.get('alice', 'prefs')).toBe(1);
+  expect(workerFetch).not.toHaveBeenCalled();
+});
+
+it('returns null for an entry the worker does not have', async () => {
+  expect(await twoLayer.get('alice', 'missing')).toBeNull();
+});
+
+it('removes the entry from both layers', async () => {
+  await twoLayer.update('alice', 'prefs', 1);
+  await twoLayer.remove('alice', 'prefs');
+
+  expect(storage.length).toBe(0);
+  expect(await twoLayer.get('alice', 'prefs')).toBeNull();
+});
+
+it('fails writes outside the scope of an identifier token', async () => {
+  twoLayer.updateConfig({ authToken: await createIdentifierToken('identifier-secret', 'alice') });
+
+  await expect(twoLayer.update('alice', 'prefs', 1)).resolves.toBeUndefined();
+  await expect(twoLayer.update('bob', 'prefs', 1)).rejects.toThrow('status 403');
+  expect(storage.getItem('twoLayer:bob:prefs')).toBeNull();
+  expect(await twoLayer.get('bob', 'prefs')).toBeNull();
+});
+
+it('clears one identifier with its identifier token', async () => {
+  await twoLayer.update('alice', 'prefs', 1);
+  await twoLayer.update('bob', 'prefs', 2);
+  twoLayer.updateConfig({ authToken: await createIdentifierToken('identifier-secret', 'alice') });
+
+  await twoLayer.clear('alice');
+  expect(storage.getItem('twoLayer:bob:prefs')).not.toBeNull();
+  await expect(twoLayer.clear()).rejects.toThrow('status 403');
+
+  twoLayer.updateConfig({ authToken: 'test-token' });
+  expect(await twoLayer.get('alice', 'prefs')).toBeNull();
+  expect(await twoLayer.get('bob', 'prefs')).toBe(2);
+});
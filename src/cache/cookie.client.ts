@@ -1,41 +1,65 @@
 'use client';
 
-import { GlobalConfig } from '../types';
+import {
+  AtomSchema,
+  BatchKey,
+  BatchResult,
+  BatchSetItem,
+  CacheKeyStats,
+  CacheResult,
+  CacheStats,
+  CacheStatsOptions,
+  CookieAtomOptions,
+  DehydratedEntry,
+  ExpirationOptions,
+  GetOrSetOptions,
+  GlobalConfig,
+} from '../types';
+import { mapBatch } from '../utils/batch';
+import { defaultCacheConfig } from '../utils/config';
+import { resolveExpiration, resolveStaleExpiration, slideExpiration } from '../utils/expiration';
+import { SingleFlight, getOrRefresh, getStaleSince } from '../utils/getOrSet';
+import { migrateValue, validateValue } from '../utils/schema';
+import { CacheEntryEventInit, cacheEvents } from '../utils/events';
+import { buildStats, summarizeEntries } from '../utils/stats';
+import HitCountModule from '../utils/hitCount.client';
+import ClientLastDateModule from '../utils/lastDate.client';
 import { ClientLogger } from 'goobs-testing';
-import CookieUtils from '../utils/cookie.client';
-
-interface CacheResult<T> {
-  identifier: string;
-  storeName: string;
-  value: T;
-  expirationDate: Date;
-  lastUpdatedDate: Date;
-  lastAccessedDate: Date;
-  getHitCount: number;
-  setHitCount: number;
-}
+import CookieUtils, { CookieBudgetError } from '../utils/cookie.client';
+import { MAX_COOKIE_LIFETIME, getChunkOwner, readChunkedCookie } from '../utils/cookieChunks';
+import { KeyringOptions } from '../utils/keyring';
+import { tabSync } from '../utils/tabSync.client';
 
 const defaultGlobalConfig: Pick<GlobalConfig, 'loggingEnabled' | 'logLevel' | 'logDirectory'> = {
-  loggingEnabled: true,
-  logLevel: 'debug',
-  logDirectory: 'logs',
+  loggingEnabled: defaultCacheConfig.global.loggingEnabled,
+  logLevel: defaultCacheConfig.global.logLevel,
+  logDirectory: defaultCacheConfig.global.logDirectory,
 };
 
 export const CookieClientModule = {
   globalConfig: defaultGlobalConfig,
+  loads: new SingleFlight(),
 
-  initialize(encryptionPassword?: string) {
+  initialize(encryptionPassword?: string, keyringOptions?: KeyringOptions) {
     ClientLogger.info('Initializing CookieClientModule');
-    CookieUtils.initialize(encryptionPassword);
+    CookieUtils.initialize(encryptionPassword, keyringOptions);
     ClientLogger.info('CookieClientModule initialized');
   },
 
-  set<T>(identifier: string, storeName: string, value: T, expirationDate: Date) {
+  set<T>(
+    identifier: string,
+    storeName: string,
+    value: T,
+    expirationDate: Date,
+    slidingTtl?: number,
+    freshUntil?: Date,
+    schemaVersion?: number,
+  ) {
     const startTime = performance.now();
     ClientLogger.info(`Setting cache value for ${identifier}/${storeName}`);
 
     try {
-      const cacheResult: CacheResult<T> = {
+      const size = this.writeEntry({
         identifier,
         storeName,
         value,
@@ -44,28 +68,124 @@ export const CookieClientModule = {
         lastAccessedDate: new Date(),
         getHitCount: 0,
         setHitCount: 1,
-      };
-
-      CookieUtils.setCookie(`${identifier}_${storeName}`, JSON.stringify(cacheResult), {
-        expires: expirationDate,
-        path: '/',
-        secure: true,
-        sameSite: 'strict',
+        slidingTtl,
+        freshUntil,
+        schemaVersion,
       });
 
       const duration = performance.now() - startTime;
+      cacheEvents.emit('set', {
+        ...this.describeEntry(identifier, storeName),
+        durationMs: duration,
+        size,
+      });
       ClientLogger.info(`Cache value set successfully for ${identifier}/${storeName}`, {
         duration: `${duration.toFixed(2)}ms`,
       });
     } catch (error) {
       ClientLogger.error(`Failed to set cache value for ${identifier}/${storeName}`, { error });
+      this.emitError('set', error, identifier, storeName);
+      if (error instanceof CookieBudgetError) {
+        throw error;
+      }
       throw new Error(`Failed to set cache value: ${error}`);
     }
   },
 
-  get<T>(identifier: string, storeName: string): CacheResult<T> | undefined {
+  /**
+   * Writes the entry's cookie as given, dates and counts included, and returns the size
+   * of the serialized entry.
+   */
+  writeEntry<T>(cacheResult: CacheResult<T>): number {
+    const { identifier, storeName } = cacheResult;
+    const expirationDate = new Date(cacheResult.expirationDate);
+    const serialized = JSON.stringify(cacheResult);
+
+    CookieUtils.setCookie(`${identifier}_${storeName}`, serialized, {
+      expires: new Date(Math.min(expirationDate.getTime(), Date.now() + MAX_COOKIE_LIFETIME)),
+      path: '/',
+      secure: true,
+      sameSite: 'strict',
+    });
+    return serialized.length;
+  },
+
+  describeEntry(identifier: string, storeName: string): CacheEntryEventInit {
+    return { source: 'cookie', key: `${identifier}_${storeName}`, identifier, storeName };
+  },
+
+  emitError(operation: string, error: unknown, identifier: string, storeName: string): void {
+    cacheEvents.emit('error', {
+      source: 'cookie',
+      key: `${identifier}_${storeName}`,
+      operation,
+      error,
+    });
+  },
+
+  /**
+   * Returns when the entry's unexpired cookie was last written, without counting it as a
+   * read or sliding its expiration.
+   */
+  getLastUpdatedDate(identifier: string, storeName: string): Date | undefined {
+    const cookieValue = CookieUtils.getCookie<string>(`${identifier}_${storeName}`);
+    if (!cookieValue) return undefined;
+    try {
+      const { expirationDate, lastUpdatedDate } = JSON.parse(cookieValue) as CacheResult<unknown>;
+      return new Date(expirationDate) < new Date() ? undefined : new Date(lastUpdatedDate);
+    } catch (error) {
+      ClientLogger.warn(`Failed to parse cookie for ${identifier}/${storeName}`, { error });
+      return undefined;
+    }
+  },
+
+  /**
+   * Writes an entry read on the server with its expiration date and schema version, unless
+   * the cookie holds a value written since the server's. Expired entries are skipped.
+   */
+  hydrateItem({
+    identifier,
+    storeName,
+    value,
+    expirationDate,
+    lastUpdatedDate,
+    schemaVersion,
+  }: DehydratedEntry): void {
+    const now = Date.now();
+    if (expirationDate !== undefined && expirationDate <= now) {
+      ClientLogger.debug(`Skipped hydrating expired cookie for ${identifier}/${storeName}`);
+      return;
+    }
+    const current = this.getLastUpdatedDate(identifier, storeName);
+    if (
+      current !== undefined &&
+      (lastUpdatedDate === undefined || current.getTime() >= lastUpdatedDate)
+    ) {
+      ClientLogger.debug(`Kept the newer cookie for ${identifier}/${storeName}`);
+      return;
+    }
+    this.set(
+      identifier,
+      storeName,
+      value,
+      new Date(expirationDate ?? now + CookieUtils.cookieConfig.cacheMaxAge),
+      undefined,
+      undefined,
+      schemaVersion,
+    );
+  },
+
+  /** Entries past their `freshUntil` date are only returned with `includeStale`. */
+  get<T>(identifier: string, storeName: string, includeStale = false): CacheResult<T> | undefined {
     const startTime = performance.now();
     ClientLogger.info(`Getting cache value for ${identifier}/${storeName}`);
+    const miss = () => {
+      cacheEvents.emit('miss', {
+        ...this.describeEntry(identifier, storeName),
+        durationMs: performance.now() - startTime,
+      });
+      return undefined;
+    };
 
     try {
       const cookieKey = `${identifier}_${storeName}`;
@@ -75,17 +195,38 @@ export const CookieClientModule = {
         const cacheResult: CacheResult<T> = JSON.parse(cookieValue);
 
         if (new Date(cacheResult.expirationDate) < new Date()) {
-          this.remove(identifier, storeName);
+          CookieUtils.deleteCookie(cookieKey);
+          cacheEvents.emit('expire', this.describeEntry(identifier, storeName));
           ClientLogger.info(`Cache value expired for ${identifier}/${storeName}`);
-          return undefined;
+          return miss();
+        }
+
+        const stale = getStaleSince(cacheResult.freshUntil) !== undefined;
+        if (!includeStale && stale) {
+          ClientLogger.info(`Cache value is stale for ${identifier}/${storeName}`);
+          return miss();
         }
 
         cacheResult.lastAccessedDate = new Date();
         cacheResult.getHitCount += 1;
+        cacheResult.expirationDate = new Date(
+          slideExpiration({
+            expirationDate: new Date(cacheResult.expirationDate).getTime(),
+            slidingTtl: cacheResult.slidingTtl,
+          }).expirationDate,
+        );
 
-        this.set(identifier, storeName, cacheResult.value, new Date(cacheResult.expirationDate));
+        // A read only updates the access statistics; lastUpdatedDate stays the last write's
+        this.writeEntry(cacheResult);
 
         const duration = performance.now() - startTime;
+        cacheEvents.emit('hit', {
+          ...this.describeEntry(identifier, storeName),
+          durationMs: duration,
+          size: cookieValue.length,
+          fromMemory: false,
+          stale,
+        });
         ClientLogger.info(`Cache value retrieved successfully for ${identifier}/${storeName}`, {
           duration: `${duration.toFixed(2)}ms`,
         });
@@ -94,9 +235,10 @@ export const CookieClientModule = {
       }
 
       ClientLogger.warn(`Value not found for ${identifier}/${storeName}`);
-      return undefined;
+      return miss();
     } catch (error) {
       ClientLogger.error(`Failed to get cache value for ${identifier}/${storeName}`, { error });
+      this.emitError('get', error, identifier, storeName);
       return undefined;
     }
   },
@@ -109,11 +251,16 @@ export const CookieClientModule = {
       CookieUtils.deleteCookie(`${identifier}_${storeName}`);
 
       const duration = performance.now() - startTime;
+      cacheEvents.emit('remove', {
+        ...this.describeEntry(identifier, storeName),
+        durationMs: duration,
+      });
       ClientLogger.info(`Cache value removed for ${identifier}/${storeName}`, {
         duration: `${duration.toFixed(2)}ms`,
       });
     } catch (error) {
       ClientLogger.error(`Failed to remove cache value for ${identifier}/${storeName}`, { error });
+      this.emitError('remove', error, identifier, storeName);
       throw new Error(`Failed to remove cache value: ${error}`);
     }
   },
@@ -127,7 +274,8 @@ export const CookieClientModule = {
 
       for (const cookie of cookies) {
         const [key] = cookie.trim().split('=');
-        if (key.includes('_')) {
+        // Chunks are removed together with the cookie that owns them
+        if (key.includes('_') && getChunkOwner(key) === undefined) {
           // Only clear cookies set by this module
           CookieUtils.deleteCookie(key);
         }
@@ -141,6 +289,98 @@ export const CookieClientModule = {
     }
   },
 
+  /**
+   * Brings an entry read by an atom up to the atom's schema. Migrated entries are written
+   * back and entries the schema rejects are removed; cookies have no room to quarantine
+   * an entry, so with `onInvalid: 'quarantine'` its value is logged instead.
+   */
+  checkSchema<T>(
+    identifier: string,
+    storeName: string,
+    result: CacheResult<T> | undefined,
+    schema?: AtomSchema<T>,
+  ): CacheResult<T> | undefined {
+    if (!result || !schema) return result;
+
+    const checked = migrateValue(schema, result.value, result.schemaVersion);
+    if (!checked.ok) {
+      ClientLogger.warn(
+        `Discarded cookie for ${identifier}/${storeName} that does not match its schema`,
+        {
+          reason: checked.error,
+          value: schema.onInvalid === 'quarantine' ? result.value : undefined,
+        },
+      );
+      try {
+        this.remove(identifier, storeName);
+      } catch {
+        // remove has logged the failure; the entry is still rejected
+      }
+      return undefined;
+    }
+
+    if (checked.migrated) {
+      try {
+        this.set(
+          identifier,
+          storeName,
+          checked.value,
+          new Date(result.expirationDate),
+          result.slidingTtl,
+          result.freshUntil && new Date(result.freshUntil),
+          schema.version,
+        );
+      } catch (error) {
+        ClientLogger.warn(`Could not store migrated cookie for ${identifier}/${storeName}`, {
+          error,
+        });
+      }
+    }
+    return { ...result, value: checked.value, schemaVersion: schema.version };
+  },
+
+  /**
+   * Statistics for this module's cookies, with hit counts and access dates from local
+   * storage; the totals count this page's operations.
+   */
+  stats(options?: CacheStatsOptions): CacheStats {
+    const cookies = CookieUtils.readDocumentCookies();
+    const get = (k: string) => localStorage.getItem(k);
+    const keys: CacheKeyStats[] = [];
+    cookies.forEach(([name]) => {
+      // Module cookies are named identifier_storeName; chunks belong to their owner
+      const separator = name.indexOf('_');
+      if (separator <= 0 || name === 'cookie_consent' || getChunkOwner(name) !== undefined) {
+        return;
+      }
+      const value = readChunkedCookie(cookies, name);
+      if (value === undefined) return;
+      keys.push({
+        identifier: name.slice(0, separator),
+        storeName: name.slice(separator + 1),
+        hitCount: HitCountModule.getHitCounts(get, name, 'cookie').getHitCount,
+        lastAccessedDate: ClientLastDateModule.getLastAccessedDate(get, name, 'cookie').getTime(),
+        size: value.length,
+      });
+    });
+    const { counts, since } = cacheEvents.getCounts('cookie');
+    return buildStats(counts, since, summarizeEntries(keys), options);
+  },
+
+  getMany<T>(keys: BatchKey[]): BatchResult<CacheResult<T> | undefined>[] {
+    return mapBatch(keys, ({ identifier, storeName }) => this.get<T>(identifier, storeName));
+  },
+
+  setMany<T>(items: BatchSetItem<T>[]): BatchResult[] {
+    return mapBatch(items, ({ identifier, storeName, value, options }) =>
+      this.createAtom<T>(identifier, storeName).set(value, options),
+    );
+  },
+
+  removeMany(keys: BatchKey[]): BatchResult[] {
+    return mapBatch(keys, ({ identifier, storeName }) => this.remove(identifier, storeName));
+  },
+
   updateConfig(
     newGlobalConfig?: Partial<Pick<GlobalConfig, 'loggingEnabled' | 'logLevel' | 'logDirectory'>>,
     newEncryptionPassword?: string,
@@ -153,14 +393,109 @@ export const CookieClientModule = {
     ClientLogger.info('CookieClientModule configuration updated');
   },
 
-  createAtom<T>(identifier: string, storeName: string) {
+  /**
+   * Announces a write to other tabs. The cookie itself is shared, so only the key and the
+   * date are sent and encrypted values never leave the cookie.
+   */
+  publishChange(identifier: string, storeName: string, action: 'set' | 'remove'): void {
+    tabSync.publish({
+      source: 'cookie',
+      key: `${identifier}_${storeName}`,
+      action,
+      lastUpdatedDate: Date.now(),
+    });
+  },
+
+  /**
+   * With a schema, values are validated on write and migrated or discarded on read. With
+   * `sync`, writes are announced to the other tabs of the origin.
+   */
+  createAtom<T>(
+    identifier: string,
+    storeName: string,
+    { schema, sync }: CookieAtomOptions<T> = {},
+  ) {
+    const get = () =>
+      this.checkSchema(identifier, storeName, this.get<T>(identifier, storeName), schema);
     return {
-      get: () => this.get<T>(identifier, storeName),
-      set: (value: T) => {
-        const expirationDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // 1 year from now
-        this.set<T>(identifier, storeName, value, expirationDate);
+      get,
+      set: (value: T, options?: ExpirationOptions) => {
+        const { expirationDate, slidingTtl } = resolveExpiration(
+          options,
+          CookieUtils.cookieConfig.cacheMaxAge,
+        );
+        this.set<T>(
+          identifier,
+          storeName,
+          schema ? validateValue(schema, value) : value,
+          new Date(expirationDate),
+          slidingTtl,
+          undefined,
+          schema?.version,
+        );
+        if (sync) this.publishChange(identifier, storeName, 'set');
+      },
+      /**
+       * Returns the cached value, or stores and returns what `loader` produces; see
+       * `GetOrSetOptions` for serving stale values.
+       */
+      getOrSet: (loader: () => T | Promise<T>, options: GetOrSetOptions = {}): Promise<T> => {
+        resolveStaleExpiration(options, CookieUtils.cookieConfig.cacheMaxAge);
+        const cached = this.checkSchema(
+          identifier,
+          storeName,
+          this.get<T>(identifier, storeName, true),
+          schema,
+        );
+        const refresh = () =>
+          this.loads.run(`${identifier}_${storeName}`, async () => {
+            const loaded = await loader();
+            const value = schema ? validateValue(schema, loaded) : loaded;
+            try {
+              const { expirationDate, freshUntil } = resolveStaleExpiration(
+                options,
+                CookieUtils.cookieConfig.cacheMaxAge,
+              );
+              this.set<T>(
+                identifier,
+                storeName,
+                value,
+                new Date(expirationDate),
+                undefined,
+                freshUntil === undefined ? undefined : new Date(freshUntil),
+                schema?.version,
+              );
+              if (sync) this.publishChange(identifier, storeName, 'set');
+            } catch (error) {
+              ClientLogger.error(`Failed to cache loaded value for ${identifier}/${storeName}`, {
+                error,
+              });
+            }
+            return value;
+          });
+        return getOrRefresh(
+          cached && { value: cached.value, staleSince: getStaleSince(cached.freshUntil) },
+          refresh,
+          options,
+          (message, error) =>
+            ClientLogger.warn(`${message} for ${identifier}/${storeName}`, { error }),
+        );
+      },
+      remove: () => {
+        this.remove(identifier, storeName);
+        if (sync) this.publishChange(identifier, storeName, 'remove');
       },
-      remove: () => this.remove(identifier, storeName),
+      /**
+       * Calls `listener` with the current value when another tab sets or removes it
+       * through an atom created with `sync`; returns a function that unsubscribes.
+       */
+      subscribe: (listener: (value: T | undefined) => void): (() => void) =>
+        tabSync.subscribe((message) => {
+          if (message.source !== 'cookie' || message.key !== `${identifier}_${storeName}`) {
+            return;
+          }
+          listener(message.action === 'remove' ? undefined : get()?.value);
+        }),
     };
   },
 };
@@ -0,0 +1,518 @@
+import { ServerLogger } from 'goobs-testing';
+import { ClientEncryptionModule } from 'goobs-encryption';
+import {
+  AtomOptions,
+  AtomSchema,
+  BatchKey,
+  BatchResult,
+  BatchSetItem,
+  CacheResult,
+  CookieConfig,
+  ExpirationOptions,
+  GetOrSetOptions,
+  GlobalConfig,
+} from '../types';
+import { runBatch } from '../utils/batch';
+import { autoTuner } from '../utils/autoTune';
+import { defaultCacheConfig } from '../utils/config';
+import { resolveExpiration, resolveStaleExpiration, slideExpiration } from '../utils/expiration';
+import { SingleFlight, getOrRefresh, getStaleSince } from '../utils/getOrSet';
+import { migrateValue, validateValue } from '../utils/schema';
+import { CookieCodec } from '../utils/cookieCodec';
+import { Keyring, KeyringOptions } from '../utils/keyring';
+import {
+  CookieBudgetError,
+  CookieChunkStore,
+  MAX_COOKIE_LIFETIME,
+  deleteChunkedCookie,
+  parseCookieHeader,
+  readChunkedCookie,
+  writeChunkedCookie,
+} from '../utils/cookieChunks';
+
+export interface CookieAttributes {
+  expires?: Date;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/** Raw cookie access for one request, independent of the framework that provides it. */
+export interface CookieJar {
+  getAll(): Array<[string, string]>;
+  set(name: string, value: string, attributes: CookieAttributes): void;
+}
+
+/**
+ * The subset of Next.js cookie stores used here, satisfied by `cookies()` from
+ * `next/headers` and `NextResponse.cookies`.
+ */
+export interface NextCookieStore {
+  getAll(): Array<{ name: string; value: string }>;
+  set(name: string, value: string, attributes?: CookieAttributes): unknown;
+}
+
+const EXPIRED_COOKIE_ATTRIBUTES: CookieAttributes = { path: '/', expires: new Date(0) };
+
+function serializeCookie(name: string, value: string, attributes: CookieAttributes): string {
+  let cookie = `${name}=${value}`;
+  if (attributes.expires) cookie += `; Expires=${attributes.expires.toUTCString()}`;
+  if (attributes.domain) cookie += `; Domain=${attributes.domain}`;
+  if (attributes.path) cookie += `; Path=${attributes.path}`;
+  if (attributes.secure) cookie += '; Secure';
+  if (attributes.httpOnly) cookie += '; HttpOnly';
+  if (attributes.sameSite) cookie += `; SameSite=${attributes.sameSite}`;
+  return cookie;
+}
+
+/**
+ * Wraps a Next.js cookie store. Next URI-encodes values itself, so values are decoded
+ * before they are handed to it and re-encoded when read back, keeping the cookies
+ * byte-for-byte identical to the ones written by the browser module.
+ */
+export function fromNextCookies(store: NextCookieStore): CookieJar {
+  return {
+    getAll: () => store.getAll().map(({ name, value }) => [name, encodeURIComponent(value)]),
+    set: (name, value, attributes) => {
+      store.set(name, decodeURIComponent(value), attributes);
+    },
+  };
+}
+
+/**
+ * Reads cookies from a request's `Cookie` header and appends `Set-Cookie` headers to
+ * `responseHeaders`. Without response headers the jar is read-only.
+ */
+export function fromHeaders(requestHeaders: Headers, responseHeaders?: Headers): CookieJar {
+  // Track writes so later reads within the same request see them
+  const cookies = new Map(parseCookieHeader(requestHeaders.get('cookie')));
+  return {
+    getAll: () => Array.from(cookies.entries()),
+    set: (name, value, attributes) => {
+      if (!responseHeaders) {
+        throw new Error(`Cannot set cookie ${name}: no response headers to write to`);
+      }
+      responseHeaders.append('Set-Cookie', serializeCookie(name, value, attributes));
+      if (attributes.expires && attributes.expires.getTime() <= Date.now()) {
+        cookies.delete(name);
+      } else {
+        cookies.set(name, value);
+      }
+    },
+  };
+}
+
+const defaultCookieConfig: CookieConfig = defaultCacheConfig.cookie;
+
+const defaultGlobalConfig: GlobalConfig = {
+  ...defaultCacheConfig.global,
+  initialize: (config: Partial<GlobalConfig>) => {
+    Object.assign(defaultGlobalConfig, config);
+  },
+};
+
+// Loads are shared per jar only: jars belong to one request, and so to one user
+const jarLoads = new WeakMap<CookieJar, SingleFlight>();
+
+function getJarLoads(jar: CookieJar): SingleFlight {
+  let loads = jarLoads.get(jar);
+  if (!loads) {
+    loads = new SingleFlight();
+    jarLoads.set(jar, loads);
+  }
+  return loads;
+}
+
+export const CookieServerModule = {
+  globalConfig: defaultGlobalConfig,
+  cookieConfig: defaultCookieConfig,
+  keyring: new Keyring(),
+
+  initialize(encryptionPassword?: string, keyringOptions: KeyringOptions = {}): void {
+    ServerLogger.info('Initializing CookieServerModule');
+    if (encryptionPassword) {
+      this.keyring.addKey(encryptionPassword, keyringOptions.keyId);
+    }
+    keyringOptions.previousKeys?.forEach((key) => this.keyring.addPreviousKey(key));
+    ServerLogger.initializeLogger(this.globalConfig);
+
+    // The browser module encrypts with ClientEncryptionModule, so the server has to use
+    // it as well for values to be readable on both sides
+    if (this.keyring.currentKey) {
+      ClientEncryptionModule.initialize(
+        this.keyring.currentKey.encryptionPassword,
+        this.globalConfig,
+      );
+    }
+    autoTuner.configure(this.globalConfig);
+    ServerLogger.info('CookieServerModule initialized');
+  },
+
+  getChunkStore(jar: CookieJar, attributes: CookieAttributes): CookieChunkStore {
+    return {
+      getAll: () => jar.getAll(),
+      write: (name, value) => jar.set(name, value, attributes),
+      expire: (name) => jar.set(name, '', EXPIRED_COOKIE_ATTRIBUTES),
+    };
+  },
+
+  async set<T>(
+    jar: CookieJar,
+    identifier: string,
+    storeName: string,
+    value: T,
+    expirationDate: Date,
+    slidingTtl?: number,
+    freshUntil?: Date,
+    schemaVersion?: number,
+  ): Promise<void> {
+    const startTime = performance.now();
+    await ServerLogger.info(`Setting cache value for ${identifier}/${storeName}`);
+
+    try {
+      const cacheResult: CacheResult<T> = {
+        identifier,
+        storeName,
+        value,
+        expirationDate,
+        lastUpdatedDate: new Date(),
+        lastAccessedDate: new Date(),
+        getHitCount: 0,
+        setHitCount: 1,
+        slidingTtl,
+        freshUntil,
+        schemaVersion,
+      };
+
+      const cookieName = `${identifier}_${storeName}`;
+      const cookieValue = CookieCodec.encode(
+        cookieName,
+        JSON.stringify(cacheResult),
+        this.keyring,
+        this.cookieConfig.compression,
+      );
+      if (cookieValue === undefined) {
+        throw new Error(`Could not encode cookie ${cookieName}`);
+      }
+
+      writeChunkedCookie(
+        this.getChunkStore(jar, {
+          expires: new Date(Math.min(expirationDate.getTime(), Date.now() + MAX_COOKIE_LIFETIME)),
+          path: '/',
+          secure: true,
+          sameSite: 'strict',
+        }),
+        cookieName,
+        cookieValue,
+        this.cookieConfig,
+      );
+
+      const duration = performance.now() - startTime;
+      await ServerLogger.info(`Cache value set successfully for ${identifier}/${storeName}`, {
+        duration: `${duration.toFixed(2)}ms`,
+      });
+    } catch (error) {
+      await ServerLogger.error(`Failed to set cache value for ${identifier}/${storeName}`, {
+        error,
+      });
+      if (error instanceof CookieBudgetError) {
+        throw error;
+      }
+      throw new Error(`Failed to set cache value: ${error}`);
+    }
+  },
+
+  /** Entries past their `freshUntil` date are only returned with `includeStale`. */
+  async get<T>(
+    jar: CookieJar,
+    identifier: string,
+    storeName: string,
+    includeStale = false,
+  ): Promise<CacheResult<T> | undefined> {
+    const startTime = performance.now();
+    await ServerLogger.info(`Getting cache value for ${identifier}/${storeName}`);
+
+    try {
+      const cookieName = `${identifier}_${storeName}`;
+      const cookieValue = readChunkedCookie(jar.getAll(), cookieName);
+      const decoded = cookieValue
+        ? CookieCodec.decode<string>(cookieName, cookieValue, this.keyring)
+        : undefined;
+
+      if (decoded?.value) {
+        const cacheResult: CacheResult<T> = JSON.parse(decoded.value);
+
+        if (new Date(cacheResult.expirationDate) < new Date()) {
+          await ServerLogger.info(`Cache value expired for ${identifier}/${storeName}`);
+          await this.remove(jar, identifier, storeName).catch(() => undefined);
+          return undefined;
+        }
+
+        if (!includeStale && getStaleSince(cacheResult.freshUntil) !== undefined) {
+          await ServerLogger.info(`Cache value is stale for ${identifier}/${storeName}`);
+          return undefined;
+        }
+
+        cacheResult.lastAccessedDate = new Date();
+        cacheResult.getHitCount += 1;
+
+        // Only sliding entries and entries encrypted under a previous key need writing
+        // back; server components can read cookies but not set them, so a failed refresh
+        // is logged rather than failing the read
+        if (cacheResult.slidingTtl || decoded.stale) {
+          cacheResult.expirationDate = new Date(
+            slideExpiration({
+              expirationDate: new Date(cacheResult.expirationDate).getTime(),
+              slidingTtl: cacheResult.slidingTtl,
+            }).expirationDate,
+          );
+          try {
+            await this.set(
+              jar,
+              identifier,
+              storeName,
+              cacheResult.value,
+              cacheResult.expirationDate,
+              cacheResult.slidingTtl,
+              cacheResult.freshUntil && new Date(cacheResult.freshUntil),
+              cacheResult.schemaVersion,
+            );
+          } catch (error) {
+            await ServerLogger.warn(`Could not rewrite cookie for ${identifier}/${storeName}`, {
+              error,
+            });
+          }
+        }
+
+        const duration = performance.now() - startTime;
+        await ServerLogger.info(
+          `Cache value retrieved successfully for ${identifier}/${storeName}`,
+          {
+            duration: `${duration.toFixed(2)}ms`,
+          },
+        );
+
+        return cacheResult;
+      }
+
+      await ServerLogger.warn(`Value not found for ${identifier}/${storeName}`);
+      return undefined;
+    } catch (error) {
+      await ServerLogger.error(`Failed to get cache value for ${identifier}/${storeName}`, {
+        error,
+      });
+      return undefined;
+    }
+  },
+
+  async remove(jar: CookieJar, identifier: string, storeName: string): Promise<void> {
+    const startTime = performance.now();
+    await ServerLogger.info(`Removing cache value for ${identifier}/${storeName}`);
+
+    try {
+      deleteChunkedCookie(this.getChunkStore(jar, {}), `${identifier}_${storeName}`);
+
+      const duration = performance.now() - startTime;
+      await ServerLogger.info(`Cache value removed for ${identifier}/${storeName}`, {
+        duration: `${duration.toFixed(2)}ms`,
+      });
+    } catch (error) {
+      await ServerLogger.error(`Failed to remove cache value for ${identifier}/${storeName}`, {
+        error,
+      });
+      throw new Error(`Failed to remove cache value: ${error}`);
+    }
+  },
+
+  /**
+   * Brings an entry read by an atom up to the atom's schema. Migrated entries are written
+   * back and entries the schema rejects are removed; cookies have no room to quarantine
+   * an entry, so with `onInvalid: 'quarantine'` its value is logged instead.
+   */
+  async checkSchema<T>(
+    jar: CookieJar,
+    identifier: string,
+    storeName: string,
+    result: CacheResult<T> | undefined,
+    schema?: AtomSchema<T>,
+  ): Promise<CacheResult<T> | undefined> {
+    if (!result || !schema) return result;
+
+    const checked = migrateValue(schema, result.value, result.schemaVersion);
+    if (!checked.ok) {
+      await ServerLogger.warn(
+        `Discarded cookie for ${identifier}/${storeName} that does not match its schema`,
+        {
+          reason: checked.error,
+          value: schema.onInvalid === 'quarantine' ? result.value : undefined,
+        },
+      );
+      await this.remove(jar, identifier, storeName).catch(() => undefined);
+      return undefined;
+    }
+
+    if (checked.migrated) {
+      try {
+        await this.set(
+          jar,
+          identifier,
+          storeName,
+          checked.value,
+          new Date(result.expirationDate),
+          result.slidingTtl,
+          result.freshUntil && new Date(result.freshUntil),
+          schema.version,
+        );
+      } catch (error) {
+        await ServerLogger.warn(`Could not store migrated cookie for ${identifier}/${storeName}`, {
+          error,
+        });
+      }
+    }
+    return { ...result, value: checked.value, schemaVersion: schema.version };
+  },
+
+  getMany<T>(jar: CookieJar, keys: BatchKey[]): Promise<BatchResult<CacheResult<T> | undefined>[]> {
+    return runBatch(keys, this.globalConfig.batchSize ?? 100, ({ identifier, storeName }) =>
+      this.get<T>(jar, identifier, storeName),
+    );
+  },
+
+  setMany<T>(jar: CookieJar, items: BatchSetItem<T>[]): Promise<BatchResult[]> {
+    return runBatch(
+      items,
+      this.globalConfig.batchSize ?? 100,
+      ({ identifier, storeName, value, options }) =>
+        this.createAtom<T>(jar, identifier, storeName).set(value, options),
+    );
+  },
+
+  removeMany(jar: CookieJar, keys: BatchKey[]): Promise<BatchResult[]> {
+    return runBatch(keys, this.globalConfig.batchSize ?? 100, ({ identifier, storeName }) =>
+      this.remove(jar, identifier, storeName),
+    );
+  },
+
+  updateConfig(
+    newCookieConfig?: Partial<CookieConfig>,
+    newGlobalConfig?: Partial<GlobalConfig>,
+    newEncryptionPassword?: string,
+  ): void {
+    if (newCookieConfig) {
+      this.cookieConfig = { ...this.cookieConfig, ...newCookieConfig };
+    }
+    if (newGlobalConfig) {
+      this.globalConfig.initialize(newGlobalConfig);
+    }
+    if (newEncryptionPassword === '') {
+      this.keyring.clear();
+    } else if (newEncryptionPassword !== undefined) {
+      // The old key stays in the keyring so existing cookies remain readable
+      this.keyring.addKey(newEncryptionPassword);
+    }
+    this.initialize();
+    ServerLogger.info('CookieServerModule configuration updated');
+  },
+
+  /** With a schema, values are validated on write and migrated or discarded on read. */
+  createAtom<T>(
+    jar: CookieJar,
+    identifier: string,
+    storeName: string,
+    { schema }: AtomOptions<T> = {},
+  ) {
+    return {
+      get: async () =>
+        this.checkSchema(
+          jar,
+          identifier,
+          storeName,
+          await this.get<T>(jar, identifier, storeName),
+          schema,
+        ),
+      set: async (value: T, options?: ExpirationOptions) => {
+        const { expirationDate, slidingTtl } = resolveExpiration(
+          options,
+          this.cookieConfig.cacheMaxAge,
+        );
+        return this.set<T>(
+          jar,
+          identifier,
+          storeName,
+          schema ? validateValue(schema, value) : value,
+          new Date(expirationDate),
+          slidingTtl,
+          undefined,
+          schema?.version,
+        );
+      },
+      /**
+       * Returns the cached value, or stores and returns what `loader` produces; see
+       * `GetOrSetOptions` for serving stale values.
+       */
+      getOrSet: async (loader: () => T | Promise<T>, options: GetOrSetOptions = {}): Promise<T> => {
+        resolveStaleExpiration(options, this.cookieConfig.cacheMaxAge);
+        const cached = await this.checkSchema(
+          jar,
+          identifier,
+          storeName,
+          await this.get<T>(jar, identifier, storeName, true),
+          schema,
+        );
+        const refresh = () =>
+          getJarLoads(jar).run(`${identifier}_${storeName}`, async () => {
+            const loaded = await loader();
+            const value = schema ? validateValue(schema, loaded) : loaded;
+            try {
+              const { expirationDate, freshUntil } = resolveStaleExpiration(
+                options,
+                this.cookieConfig.cacheMaxAge,
+              );
+              await this.set<T>(
+                jar,
+                identifier,
+                storeName,
+                value,
+                new Date(expirationDate),
+                undefined,
+                freshUntil === undefined ? undefined : new Date(freshUntil),
+                schema?.version,
+              );
+            } catch (error) {
+              await ServerLogger.error(
+                `Failed to cache loaded value for ${identifier}/${storeName}`,
+                { error },
+              );
+            }
+            return value;
+          });
+        return getOrRefresh(
+          cached && { value: cached.value, staleSince: getStaleSince(cached.freshUntil) },
+          refresh,
+          options,
+          (message, error) =>
+            ServerLogger.warn(`${message} for ${identifier}/${storeName}`, { error }),
+        );
+      },
+      remove: () => this.remove(jar, identifier, storeName),
+    };
+  },
+};
+
+// Middleware runs on the edge runtime, which has no process.on
+if (typeof process !== 'undefined' && typeof process.on === 'function') {
+  process.on('unhandledRejection', async (reason: unknown, promise: Promise<unknown>) => {
+    await ServerLogger.error('Unhandled Rejection at:', {
+      promise,
+      reason: reason instanceof Error ? reason.message : String(reason),
+      stack: reason instanceof Error ? reason.stack : undefined,
+    });
+  });
+}
+
+// Initialize the module without encryption by default
+CookieServerModule.initialize();
+
+export default CookieServerModule;
@@ -2,24 +2,34 @@
 import JotaiClientModule from '../utils/jotai.client';
 import { ClientLogger } from 'goobs-testing';
 import { GlobalConfig } from '../types';
+import { defaultCacheConfig } from '../utils/config';
+import { KeyringOptions } from '../utils/keyring';
 
 const defaultGlobalConfig: Pick<GlobalConfig, 'loggingEnabled' | 'logLevel' | 'logDirectory'> = {
-  loggingEnabled: true,
-  logLevel: 'debug',
-  logDirectory: 'logs',
+  loggingEnabled: defaultCacheConfig.global.loggingEnabled,
+  logLevel: defaultCacheConfig.global.logLevel,
+  logDirectory: defaultCacheConfig.global.logDirectory,
 };
 
 export const jotai = {
   globalConfig: defaultGlobalConfig,
 
-  initialize(encryptionPassword?: string) {
+  initialize(encryptionPassword?: string, keyringOptions?: KeyringOptions) {
     ClientLogger.debug('Initializing jotai module');
-    JotaiClientModule.initialize(encryptionPassword);
+    JotaiClientModule.initialize(encryptionPassword, keyringOptions);
     ClientLogger.debug('Jotai module initialized');
   },
 
-  atom: JotaiClientModule.atom,
+  atom: JotaiClientModule.atom.bind(JotaiClientModule),
+  setStorageBackend: JotaiClientModule.setStorageBackend.bind(JotaiClientModule),
   useAtom: JotaiClientModule.useAtom,
+  listLegacyAtomKeys: JotaiClientModule.listLegacyAtomKeys.bind(JotaiClientModule),
+  migrateLegacyAtom: JotaiClientModule.migrateLegacyAtom.bind(JotaiClientModule),
+  cleanupLegacyAtoms: JotaiClientModule.cleanupLegacyAtoms.bind(JotaiClientModule),
+  getMany: JotaiClientModule.getMany.bind(JotaiClientModule),
+  setMany: JotaiClientModule.setMany.bind(JotaiClientModule),
+  removeMany: JotaiClientModule.removeMany.bind(JotaiClientModule),
+  stats: JotaiClientModule.stats.bind(JotaiClientModule),
 
   updateConfig(
     newGlobalConfig?: Partial<Pick<GlobalConfig, 'loggingEnabled' | 'logLevel' | 'logDirectory'>>,
@@ -2,15 +2,91 @@
 
 import {
   R2Bucket,
+  ExecutionContext,
   KVNamespace,
   ScheduledEvent,
+  R2Conditional,
   R2ListOptions,
+  R2Object,
   R2Objects,
 } from '@cloudflare/workers-types';
+import { LRUCache } from 'lru-cache';
 import { ServerLogger } from 'goobs-testing';
 import { ServerCompressionModule } from '../utils/compression.server';
+import '../utils/codecs.server';
+import { autoTuner } from '../utils/autoTune';
+import {
+  ApiAction,
+  ApiAuthEnv,
+  ApiPrincipal,
+  Authenticator,
+  envAuth,
+  hasScope,
+} from '../utils/apiAuth.server';
 import { ServerEncryptionModule, EncryptedData } from 'goobs-encryption';
-import { GlobalConfig } from '../types';
+import {
+  AtomOptions,
+  AtomSchema,
+  BatchKey,
+  BatchResult,
+  BatchSetItem,
+  CacheListEntry,
+  CacheListOptions,
+  CacheListResult,
+  CacheKeyStats,
+  CacheStats,
+  CacheStatsOptions,
+  CacheStoreStats,
+  CompressionAlgorithm,
+  CompressionConfig,
+  EncryptionKey,
+  EvictionPolicy,
+  ExpirationOptions,
+  GetOrSetOptions,
+  GlobalConfig,
+  ServerlessConfig,
+  ServerlessSetOptions,
+  StoredValue,
+  VersionedValue,
+} from '../types';
+import { defaultCacheConfig } from '../utils/config';
+import {
+  NO_EXPIRY,
+  ResolvedExpiration,
+  resolveExpiration,
+  resolveStaleExpiration,
+  slideExpiration,
+} from '../utils/expiration';
+import { SingleFlight, getOrRefresh, getStaleSince } from '../utils/getOrSet';
+import { SchemaError, getQuarantineKey, migrateValue, validateValue } from '../utils/schema';
+import { CacheEntryEventInit, cacheEvents } from '../utils/events';
+import {
+  CacheCounts,
+  EntrySummary,
+  addCounts,
+  applyStoreChanges,
+  buildStats,
+  emptyCounts,
+  hasCounts,
+  summarizeEntries,
+} from '../utils/stats';
+import { countFailures, runBatch } from '../utils/batch';
+import {
+  EvictionCandidate,
+  EvictionLimits,
+  getEvictionStrategy,
+  selectEvictionVictims,
+} from '../utils/eviction';
+import {
+  ValueEnvelope,
+  createEnvelope,
+  decryptEnvelopeAsync,
+  encryptEnvelopeAsync,
+  isEnvelopeStale,
+  isValueEnvelope,
+  readEnvelope,
+} from '../utils/envelope';
+import { DecryptionResult, Keyring, VersionedEncryptedData } from '../utils/keyring';
 
 interface CacheEntry<T> {
   value: T;
@@ -18,33 +94,154 @@ interface CacheEntry<T> {
   lastUpdatedDate: number;
   lastAccessedDate: number;
   hitCount: number;
+  slidingTtl?: number;
+  /** Changes whenever the value is written, but not when only access statistics change. */
+  version?: string;
+  /** Entries written by getOrSet with stale windows are stale, but kept, after this time. */
+  freshUntil?: number;
+  schemaVersion?: number;
+}
+
+interface LoadedValue<T> extends StoredValue<T> {
+  staleSince?: number;
+}
+
+interface LoadOptions<T> {
+  /** Also return entries past their freshUntil time. */
+  includeStale?: boolean;
+  schema?: AtomSchema<T>;
+}
+
+interface StoreOptions {
+  ifMatch?: string | null;
+  schemaVersion?: number;
 }
 
 interface ServerlessCacheConfig {
   cacheMaxAge: number;
+  cacheSize: number;
+  maxMemoryUsage: number;
+  evictionPolicy: EvictionPolicy;
+  memoryCacheSize: number;
+  memoryCacheMaxAge: number;
+  compressionCodec: CompressionAlgorithm;
+  compressionLevel: number;
   compressionThreshold: number;
   encryptionEnabled: boolean;
   encryptionPassword: string;
+  encryptionKeyId?: string;
+  previousEncryptionKeys: EncryptionKey[];
+  keyCheckIntervalMs: number;
+  keyRotationIntervalMs: number;
 }
 
-interface Env {
+export interface Env extends ApiAuthEnv {
   R2_BUCKET: R2Bucket;
   CACHE_CONFIG: KVNamespace;
 }
 
+interface PendingAccess {
+  hits: number;
+  lastAccessedDate: number;
+  expirationDate: number;
+  version: string;
+}
+
+/**
+ * List options as the R2 API takes them. The oldest workers types predate `include`, and
+ * without it listings from later compatibility dates carry no custom metadata.
+ */
+type MetadataListOptions = R2ListOptions & { include?: ('httpMetadata' | 'customMetadata')[] };
+
+/** Statistics aggregated across isolates, as stored in R2. */
+interface StoredStats {
+  counts: CacheCounts;
+  since: number;
+  entries?: EntrySummary;
+  /** Per-store sizes, kept current by every write and removal between eviction passes. */
+  stores?: Record<string, CacheStoreStats>;
+}
+
+// Conditional writes attempted before giving up on a key that keeps changing
+const MAX_CAS_ATTEMPTS = 5;
+// Objects one eviction pass lists at most; larger buckets are covered over several passes
+const MAX_EVICTION_SCAN = 10000;
+// How long access statistics of keys read too rarely to fill a batch wait to be flushed
+const ACCESS_FLUSH_INTERVAL_MS = 60000;
+// Keys one R2 delete call accepts at most
+const MAX_DELETE_KEYS = 1000;
+// Entry keys always contain a colon, so this one never collides with an entry
+const STATS_KEY = '__stats__';
+
+/** Entries written before versioning get a stable version from their last write. */
+function getEntryVersion(entry: CacheEntry<unknown>): string {
+  return entry.version ?? `legacy-${entry.lastUpdatedDate}`;
+}
+
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly identifier: string,
+    public readonly storeName: string,
+    public readonly expectedVersion: string | null,
+  ) {
+    super(
+      expectedVersion === null
+        ? `${identifier}/${storeName} already exists`
+        : `${identifier}/${storeName} is no longer at version ${expectedVersion}`,
+    );
+    this.name = 'VersionConflictError';
+  }
+}
+
 class ServerlessR2Cache {
+  private writesSinceEviction = 0;
+  // Where the next eviction pass resumes listing, when the last one stopped early
+  private evictionCursor?: string;
+  private memoryCache: LRUCache<string, CacheEntry<unknown>>;
+  private pendingAccess = new Map<string, PendingAccess>();
+  private lastAccessFlush = Date.now();
+  private accessFlushTimer?: ReturnType<typeof setTimeout>;
+  // Expiration last written to R2 for entries held in memory, which sliding reads extend
+  private persistedExpirations = new WeakMap<CacheEntry<unknown>, number>();
+  private loads = new SingleFlight();
+  private unflushedCounts = emptyCounts();
+  private entrySummary?: EntrySummary;
+  // Per-store changes in entries and bytes since the last flush or full eviction pass
+  private storeChanges: Record<string, CacheStoreStats> = {};
+  private statsSince = Date.now();
+  private keyring: Keyring;
+  private compression: CompressionConfig;
+
   private constructor(
     private config: ServerlessCacheConfig,
     private globalConfig: GlobalConfig,
     private r2Bucket: R2Bucket,
   ) {
+    this.memoryCache = new LRUCache<string, CacheEntry<unknown>>({
+      max: this.config.memoryCacheSize,
+      ttl: this.config.memoryCacheMaxAge,
+    });
     ServerLogger.initializeLogger(this.globalConfig);
-    ServerCompressionModule.globalConfig = this.globalConfig;
+    this.compression = {
+      codec: this.config.compressionCodec,
+      compressionLevel: this.config.compressionLevel,
+      threshold: this.config.compressionThreshold,
+    };
+    ServerCompressionModule.initialize(this.compression, this.globalConfig);
+    autoTuner.configure(this.globalConfig);
+    this.keyring = new Keyring(
+      this.config.encryptionEnabled ? this.config.encryptionPassword : undefined,
+      { keyId: this.config.encryptionKeyId, previousKeys: this.config.previousEncryptionKeys },
+    );
     if (this.config.encryptionEnabled) {
       ServerEncryptionModule.initialize(this.config.encryptionPassword, this.globalConfig);
     }
   }
 
+  get currentKeyId(): string | undefined {
+    return this.keyring.currentKey?.keyId;
+  }
+
   static async create(
     config: ServerlessCacheConfig,
     globalConfig: GlobalConfig,
@@ -57,38 +254,272 @@ class ServerlessR2Cache {
     return `${identifier}:${storeName}`;
   }
 
-  async get<T>(identifier: string, storeName: string): Promise<T | null> {
-    const key = this.getR2Key(identifier, storeName);
+  /** Source and key fields of an event about the entry stored under `key`. */
+  private describeEntry(key: string): CacheEntryEventInit {
+    const { identifier, storeName } = this.parseR2Key(key) ?? { identifier: key, storeName: '' };
+    return { source: 'serverless', key, identifier, storeName };
+  }
+
+  private emitError(operation: string, error: unknown, key?: string): void {
+    cacheEvents.emit('error', { source: 'serverless', key, operation, error });
+  }
+
+  private addStoreChange(storeName: string, entries: number, bytes: number): void {
+    const change = (this.storeChanges[storeName] ??= { entries: 0, bytes: 0 });
+    change.entries += entries;
+    change.bytes += bytes;
+  }
+
+  private recordStoreChange(key: string, entries: number, bytes: number): void {
+    const parsed = this.parseR2Key(key);
+    if (parsed) this.addStoreChange(parsed.storeName, entries, bytes);
+  }
+
+  /**
+   * Writes an entry, or with `onlyIf` only while that condition holds. Returns the stored
+   * size, or null when the condition failed.
+   */
+  private async putEntry<T>(
+    key: string,
+    entry: CacheEntry<T>,
+    onlyIf?: R2Conditional,
+  ): Promise<number | null> {
+    // Mirror the access statistics into custom metadata so eviction can read them from listings
+    const customMetadata = {
+      hitCount: entry.hitCount.toString(),
+      lastAccessedDate: entry.lastAccessedDate.toString(),
+      expirationDate: entry.expirationDate.toString(),
+    };
+    const object = await this.r2Bucket.put(key, JSON.stringify(entry), {
+      customMetadata,
+      ...(onlyIf && { onlyIf }),
+    });
+    if (object === null) return null;
+    this.persistedExpirations.set(entry, entry.expirationDate);
+    return object.size;
+  }
+
+  /** Reads an entry straight from R2, with the etag needed to replace it conditionally. */
+  private async readStored<T>(
+    key: string,
+  ): Promise<{ entry: CacheEntry<T>; etag: string; size: number } | null> {
+    const object = await this.r2Bucket.get(key);
+    if (!object) return null;
+    return { entry: JSON.parse(await object.text()), etag: object.etag, size: object.size };
+  }
+
+  /** Deletes the object under `key` and takes its size off its store's statistics. */
+  private async deleteObject(key: string): Promise<void> {
+    const object = await this.r2Bucket.head(key);
+    await this.r2Bucket.delete(key);
+    if (object) this.recordStoreChange(key, -1, -object.size);
+  }
+
+  /**
+   * Writes back an entry read earlier, unless its value has been replaced since. Access
+   * statistics and format upgrades go through here so they never undo a newer set.
+   */
+  private async putEntryIfCurrent<T>(key: string, entry: CacheEntry<T>): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const stored = await this.readStored(key);
+      if (!stored || getEntryVersion(stored.entry) !== getEntryVersion(entry)) {
+        this.memoryCache.delete(key);
+        return false;
+      }
+      if ((await this.putEntry(key, entry, { etagMatches: stored.etag })) !== null) return true;
+    }
+    return false;
+  }
+
+  private async writeValue<T>(key: string, value: T): Promise<ValueEnvelope> {
+    const settings = autoTuner.getSettings('serverless', this.compression);
+    const envelope = createEnvelope(value, settings, (sample) => {
+      autoTuner.record('serverless', sample);
+      cacheEvents.emit('compress', { source: 'serverless', key, codec: settings.codec, ...sample });
+    });
+    return encryptEnvelopeAsync(envelope, this.keyring);
+  }
+
+  /** Restores a stored value; `stale` is set when it should be rewritten in the current format. */
+  private async readValue<T>(key: string, stored: unknown): Promise<DecryptionResult<T>> {
+    if (isValueEnvelope(stored)) {
+      const { value: envelope, stale } = await this.decrypt(key, () =>
+        decryptEnvelopeAsync(stored, this.keyring),
+      );
+      return { value: readEnvelope<T>(envelope), stale };
+    }
+    return { value: await this.readLegacyValue<T>(key, stored), stale: true };
+  }
+
+  /** Reads values written before the envelope format: encryption, then `compressed:` strings. */
+  private async readLegacyValue<T>(key: string, stored: unknown): Promise<T> {
+    let value = stored;
+    if (this.config.encryptionEnabled) {
+      const encrypted = value as VersionedEncryptedData<T> | EncryptedData<T>;
+      value = (await this.decrypt(key, () => this.keyring.decryptAsync<T>(encrypted))).value;
+    }
+    if (typeof value === 'string' && value.startsWith('compressed:')) {
+      const compressedString = value.slice(11); // Remove 'compressed:' prefix
+      const decompressedString = await ServerCompressionModule.decompressData(compressedString);
+      value = JSON.parse(decompressedString);
+    }
+    return value as T;
+  }
+
+  private async decrypt<R>(key: string, decryption: () => Promise<R>): Promise<R> {
     try {
+      return await decryption();
+    } catch (error) {
+      cacheEvents.emit('decrypt-failure', { source: 'serverless', key, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads an entry. Stale entries are only returned with `includeStale`, and with a
+   * `schema`, older entries are migrated and entries it rejects are discarded.
+   */
+  private async loadVersioned<T>(
+    key: string,
+    { includeStale = false, schema }: LoadOptions<T> = {},
+  ): Promise<LoadedValue<T> | null> {
+    const startTime = performance.now();
+    const miss = () => {
+      cacheEvents.emit('miss', {
+        ...this.describeEntry(key),
+        durationMs: performance.now() - startTime,
+      });
+      return null;
+    };
+
+    let entry = this.memoryCache.get(key) as CacheEntry<T> | undefined;
+    const fromMemory = entry !== undefined;
+    let size: number | undefined;
+
+    if (!entry) {
       const object = await this.r2Bucket.get(key);
 
       if (!object) {
-        return null;
+        return miss();
       }
 
-      const entry: CacheEntry<T> = JSON.parse(await object.text());
+      const text = await object.text();
+      size = text.length;
+      entry = JSON.parse(text) as CacheEntry<T>;
+      this.persistedExpirations.set(entry, entry.expirationDate);
+      this.memoryCache.set(key, entry);
+    }
+
+    if (Date.now() > entry.expirationDate) {
+      this.memoryCache.delete(key);
+      this.pendingAccess.delete(key);
+      await this.deleteObject(key);
+      cacheEvents.emit('expire', this.describeEntry(key));
+      return miss();
+    }
+
+    const staleSince = getStaleSince(entry.freshUntil);
+    if (staleSince !== undefined && !includeStale) {
+      return miss();
+    }
+
+    const now = Date.now();
+    entry.hitCount++;
+    entry.lastAccessedDate = now;
 
-      if (Date.now() > entry.expirationDate) {
-        await this.r2Bucket.delete(key);
-        return null;
+    if (entry.slidingTtl) {
+      const persistedExpiration = this.persistedExpirations.get(entry) ?? entry.expirationDate;
+      entry.expirationDate = slideExpiration(entry, now).expirationDate;
+      // Write sliding extensions through once half the window has passed, so other
+      // isolates reading R2 never see the entry as expired while it is in use
+      if (persistedExpiration - now < entry.slidingTtl / 2) {
+        await this.putEntryIfCurrent(key, entry);
       }
+    }
 
-      entry.hitCount++;
-      entry.lastAccessedDate = Date.now();
-      await this.r2Bucket.put(key, JSON.stringify(entry));
+    await this.recordAccess(key, entry);
 
-      let value = entry.value;
-      if (this.config.encryptionEnabled) {
-        value = await ServerEncryptionModule.decrypt<T>(value as unknown as EncryptedData<T>);
+    let { value, stale } = await this.readValue<T>(key, entry.value);
+    if (schema) {
+      const result = migrateValue(schema, value, entry.schemaVersion);
+      if (!result.ok) {
+        await this.rejectEntry(key, schema, result.error);
+        return miss();
       }
-      if (typeof value === 'string' && value.startsWith('compressed:')) {
-        const compressedString = value.slice(11); // Remove 'compressed:' prefix
-        const decompressedString = await ServerCompressionModule.decompressData(compressedString);
-        value = JSON.parse(decompressedString) as T;
+      value = result.value;
+      if (result.migrated) {
+        entry.schemaVersion = schema.version;
+        stale = true;
       }
+    }
+    if (stale) {
+      // Entries written under a previous key, format or schema move to the current one on first read
+      entry.value = (await this.writeValue(key, value)) as unknown as T;
+      await this.putEntryIfCurrent(key, entry);
+    }
 
-      return value;
+    cacheEvents.emit('hit', {
+      ...this.describeEntry(key),
+      durationMs: performance.now() - startTime,
+      size,
+      fromMemory,
+      stale: staleSince !== undefined,
+    });
+    return {
+      value,
+      version: getEntryVersion(entry),
+      expirationDate: entry.expirationDate,
+      lastUpdatedDate: entry.lastUpdatedDate,
+      schemaVersion: entry.schemaVersion,
+      staleSince,
+    };
+  }
+
+  /** Removes an entry its schema rejects, keeping a copy first if the schema quarantines. */
+  private async rejectEntry<T>(key: string, schema: AtomSchema<T>, reason: string): Promise<void> {
+    const quarantine = schema.onInvalid === 'quarantine';
+    if (quarantine) {
+      const object = await this.r2Bucket.get(key);
+      if (object) {
+        await this.r2Bucket.put(getQuarantineKey(key), await object.text(), {
+          customMetadata: { reason },
+        });
+      }
+    }
+    await this.delete(key);
+    await ServerLogger.warn(`Discarded cache entry ${key} that does not match its schema`, {
+      reason,
+      quarantined: quarantine,
+    });
+  }
+
+  private async load<T>(key: string, schema?: AtomSchema<T>): Promise<T | null> {
+    return (await this.loadVersioned<T>(key, { schema }))?.value ?? null;
+  }
+
+  async get<T>(identifier: string, storeName: string, schema?: AtomSchema<T>): Promise<T | null> {
+    try {
+      return await this.load<T>(this.getR2Key(identifier, storeName), schema);
+    } catch (error) {
+      this.emitError('get', error, this.getR2Key(identifier, storeName));
+      await ServerLogger.error(`Error getting cache value for ${identifier}/${storeName}:`, {
+        error,
+      });
+      return null;
+    }
+  }
+
+  /** Like `get`, but also returns the entry's version for a later `set` with `ifMatch`. */
+  async getWithVersion<T>(
+    identifier: string,
+    storeName: string,
+    schema?: AtomSchema<T>,
+  ): Promise<VersionedValue<T> | null> {
+    try {
+      const loaded = await this.loadVersioned<T>(this.getR2Key(identifier, storeName), { schema });
+      return loaded && { value: loaded.value, version: loaded.version };
     } catch (error) {
+      this.emitError('get', error, this.getR2Key(identifier, storeName));
       await ServerLogger.error(`Error getting cache value for ${identifier}/${storeName}:`, {
         error,
       });
@@ -96,52 +527,430 @@ class ServerlessR2Cache {
     }
   }
 
-  async set<T>(identifier: string, storeName: string, value: T): Promise<void> {
+  /**
+   * Checks `ifMatch` against R2 and returns the condition that keeps it true until the
+   * put, with the size of the object it replaces.
+   */
+  private async getWriteCondition(
+    identifier: string,
+    storeName: string,
+    ifMatch: string | null,
+  ): Promise<{ condition: R2Conditional; previousSize?: number }> {
+    const stored = await this.readStored(this.getR2Key(identifier, storeName));
+    // Stale entries count as missing, as they do for get
+    const current =
+      stored &&
+      Date.now() <= stored.entry.expirationDate &&
+      getStaleSince(stored.entry.freshUntil) === undefined
+        ? stored.entry
+        : null;
+    const currentVersion = current && getEntryVersion(current);
+    if (currentVersion !== ifMatch) {
+      throw new VersionConflictError(identifier, storeName, ifMatch);
+    }
+    return stored
+      ? { condition: { etagMatches: stored.etag }, previousSize: stored.size }
+      : { condition: { etagDoesNotMatch: '*' } };
+  }
+
+  private async store<T>(
+    identifier: string,
+    storeName: string,
+    value: T,
+    { expirationDate, slidingTtl, freshUntil }: ResolvedExpiration & { freshUntil?: number },
+    { ifMatch, schemaVersion }: StoreOptions = {},
+  ): Promise<string> {
+    const startTime = performance.now();
     const key = this.getR2Key(identifier, storeName);
+    const processedValue = await this.writeValue(key, value);
+
+    const entry: CacheEntry<typeof processedValue> = {
+      value: processedValue,
+      expirationDate,
+      lastUpdatedDate: Date.now(),
+      lastAccessedDate: Date.now(),
+      hitCount: 0,
+      slidingTtl,
+      version: crypto.randomUUID(),
+      freshUntil,
+      schemaVersion,
+    };
+
+    let size: number | null;
+    let previousSize: number | undefined;
+    if (ifMatch === undefined) {
+      previousSize = (await this.r2Bucket.head(key))?.size;
+      size = await this.putEntry(key, entry);
+    } else {
+      const write = await this.getWriteCondition(identifier, storeName, ifMatch);
+      previousSize = write.previousSize;
+      size = await this.putEntry(key, entry, write.condition);
+      if (size === null) {
+        throw new VersionConflictError(identifier, storeName, ifMatch);
+      }
+    }
+    this.recordStoreChange(
+      key,
+      previousSize === undefined ? 1 : 0,
+      (size ?? 0) - (previousSize ?? 0),
+    );
+    this.memoryCache.set(key, entry);
+    this.pendingAccess.delete(key);
+    this.writesSinceEviction++;
+    cacheEvents.emit('set', {
+      ...this.describeEntry(key),
+      durationMs: performance.now() - startTime,
+      size: processedValue.data.length,
+    });
+    return entry.version!;
+  }
+
+  /**
+   * Returns the cached value, or stores and returns what `loader` produces. Concurrent
+   * calls for a missing key share one loader call; stale values are served according to
+   * `staleWhileRevalidate` and `staleIfError`.
+   */
+  async getOrSet<T>(
+    identifier: string,
+    storeName: string,
+    loader: () => T | Promise<T>,
+    options: GetOrSetOptions = {},
+    schema?: AtomSchema<T>,
+  ): Promise<T> {
+    const key = this.getR2Key(identifier, storeName);
+    // Reject invalid options before anything is loaded
+    resolveStaleExpiration(options, this.config.cacheMaxAge);
+
+    let cached: LoadedValue<T> | null = null;
     try {
-      let processedValue: T | string | EncryptedData<T> = value;
-      if (
-        typeof processedValue === 'string' &&
-        processedValue.length > this.config.compressionThreshold
-      ) {
-        const compressedData = await ServerCompressionModule.compressData(processedValue);
-        if (compressedData !== null && compressedData.compressed) {
-          processedValue = 'compressed:' + compressedData.data.toString();
+      cached = await this.loadVersioned<T>(key, { includeStale: true, schema });
+    } catch (error) {
+      this.emitError('get', error, this.getR2Key(identifier, storeName));
+      await ServerLogger.error(`Error getting cache value for ${identifier}/${storeName}:`, {
+        error,
+      });
+    }
+
+    const refresh = () =>
+      this.loads.run(key, async () => {
+        const loaded = await loader();
+        const value = schema ? validateValue(schema, loaded) : loaded;
+        try {
+          const expiration = resolveStaleExpiration(options, this.config.cacheMaxAge);
+          await this.store(identifier, storeName, value, expiration, {
+            schemaVersion: schema?.version,
+          });
+          await this.evictIfDue();
+        } catch (error) {
+          this.emitError('set', error, key);
+          await ServerLogger.error(`Error setting cache value for ${identifier}/${storeName}:`, {
+            error,
+          });
         }
-      }
-      if (this.config.encryptionEnabled) {
-        processedValue = await ServerEncryptionModule.encrypt(processedValue as T);
-      }
+        return value;
+      });
+    return getOrRefresh(cached ?? undefined, refresh, options, (message, error) =>
+      ServerLogger.warn(`${message} for ${identifier}/${storeName}`, { error }),
+    );
+  }
 
-      const entry: CacheEntry<typeof processedValue> = {
-        value: processedValue,
-        expirationDate: Date.now() + this.config.cacheMaxAge,
-        lastUpdatedDate: Date.now(),
-        lastAccessedDate: Date.now(),
-        hitCount: 0,
-      };
+  private async evictIfDue(): Promise<void> {
+    if (this.writesSinceEviction >= this.batchSize) {
+      await this.evict();
+    }
+  }
 
-      await this.r2Bucket.put(key, JSON.stringify(entry));
+  /**
+   * Stores a value and returns the entry's new version, or null when the write failed.
+   * With `ifMatch`, a concurrent change throws `VersionConflictError` instead, and with
+   * a `schema`, an invalid value throws `SchemaError`.
+   */
+  async set<T>(
+    identifier: string,
+    storeName: string,
+    value: T,
+    options?: ServerlessSetOptions,
+    schema?: AtomSchema<T>,
+  ): Promise<string | null> {
+    const expiration = resolveExpiration(options, this.config.cacheMaxAge);
+    const checked = schema ? validateValue(schema, value) : value;
+    try {
+      const version = await this.store(identifier, storeName, checked, expiration, {
+        ifMatch: options?.ifMatch,
+        schemaVersion: schema?.version,
+      });
+      await this.evictIfDue();
+      return version;
     } catch (error) {
+      if (error instanceof VersionConflictError) throw error;
+      if (error instanceof SchemaError) throw error;
+      this.emitError('set', error, this.getR2Key(identifier, storeName));
       await ServerLogger.error(`Error setting cache value for ${identifier}/${storeName}:`, {
         error,
       });
+      return null;
     }
   }
 
-  async remove(identifier: string, storeName: string): Promise<void> {
+  /**
+   * Replaces a value with `updater(current)`, where `current` is null when nothing is
+   * stored. When another write lands first, the updater runs again on the newer value,
+   * up to MAX_CAS_ATTEMPTS times before the VersionConflictError is thrown.
+   */
+  async update<T>(
+    identifier: string,
+    storeName: string,
+    updater: (current: T | null) => T | Promise<T>,
+    options?: ExpirationOptions,
+    schema?: AtomSchema<T>,
+  ): Promise<T> {
     const key = this.getR2Key(identifier, storeName);
+    const expiration = resolveExpiration(options, this.config.cacheMaxAge);
     try {
-      await this.r2Bucket.delete(key);
+      for (let attempt = 1; ; attempt++) {
+        const current = await this.loadVersioned<T>(key, { schema });
+        const updated = await updater(current ? current.value : null);
+        const next = schema ? validateValue(schema, updated) : updated;
+        try {
+          await this.store(identifier, storeName, next, expiration, {
+            ifMatch: current?.version ?? null,
+            schemaVersion: schema?.version,
+          });
+          await this.evictIfDue();
+          return next;
+        } catch (error) {
+          if (!(error instanceof VersionConflictError) || attempt >= MAX_CAS_ATTEMPTS) throw error;
+          // The memory cache still holds the losing version, so re-read from R2
+          this.memoryCache.delete(key);
+          await new Promise((resolve) => setTimeout(resolve, Math.random() * 10 * attempt));
+        }
+      }
     } catch (error) {
+      this.emitError('update', error, key);
+      await ServerLogger.error(`Error updating cache value for ${identifier}/${storeName}:`, {
+        error,
+      });
+      throw error;
+    }
+  }
+
+  private async delete(key: string): Promise<void> {
+    const startTime = performance.now();
+    this.memoryCache.delete(key);
+    this.pendingAccess.delete(key);
+    await this.deleteObject(key);
+    cacheEvents.emit('remove', {
+      ...this.describeEntry(key),
+      durationMs: performance.now() - startTime,
+    });
+  }
+
+  async remove(identifier: string, storeName: string): Promise<void> {
+    try {
+      await this.delete(this.getR2Key(identifier, storeName));
+    } catch (error) {
+      this.emitError('remove', error, this.getR2Key(identifier, storeName));
       await ServerLogger.error(`Error removing cache value for ${identifier}/${storeName}:`, {
         error,
       });
     }
   }
 
+  async getMany<T>(keys: BatchKey[]): Promise<BatchResult<T | null>[]> {
+    const results = await runBatch(keys, this.batchSize, ({ identifier, storeName }) =>
+      this.load<T>(this.getR2Key(identifier, storeName)),
+    );
+    await this.logBatchFailures('get', results);
+    return results;
+  }
+
+  /** Reads entries like `getMany`, with the dates and schema version of each. */
+  async getManyStored<T>(keys: BatchKey[]): Promise<BatchResult<StoredValue<T> | null>[]> {
+    const results = await runBatch(keys, this.batchSize, async ({ identifier, storeName }) => {
+      const loaded = await this.loadVersioned<T>(this.getR2Key(identifier, storeName));
+      return (
+        loaded && {
+          value: loaded.value,
+          version: loaded.version,
+          expirationDate: loaded.expirationDate,
+          lastUpdatedDate: loaded.lastUpdatedDate,
+          schemaVersion: loaded.schemaVersion,
+        }
+      );
+    });
+    await this.logBatchFailures('get', results);
+    return results;
+  }
+
+  async setMany<T>(items: BatchSetItem<T>[]): Promise<BatchResult[]> {
+    const results = await runBatch(
+      items,
+      this.batchSize,
+      async ({ identifier, storeName, value, options }) => {
+        await this.store(
+          identifier,
+          storeName,
+          value,
+          resolveExpiration(options, this.config.cacheMaxAge),
+        );
+      },
+      () => this.evictIfDue(),
+    );
+    await this.logBatchFailures('set', results);
+    return results;
+  }
+
+  async removeMany(keys: BatchKey[]): Promise<BatchResult[]> {
+    const results = await runBatch(keys, this.batchSize, ({ identifier, storeName }) =>
+      this.delete(this.getR2Key(identifier, storeName)),
+    );
+    await this.logBatchFailures('remove', results);
+    return results;
+  }
+
+  private get batchSize(): number {
+    return this.globalConfig.batchSize ?? 100;
+  }
+
+  private async logBatchFailures(
+    operation: string,
+    results: BatchResult<unknown>[],
+  ): Promise<void> {
+    const failed = countFailures(results);
+    if (failed > 0) {
+      await ServerLogger.warn(
+        `Batch ${operation} failed for ${failed} of ${results.length} items`,
+        {
+          errors: results.filter((result) => !result.ok),
+        },
+      );
+    }
+  }
+
+  /** Splits an R2 key at its last colon, so identifiers may contain colons but store names may not. */
+  private parseR2Key(key: string): BatchKey | null {
+    const separator = key.lastIndexOf(':');
+    if (separator < 0) return null;
+    return { identifier: key.slice(0, separator), storeName: key.slice(separator + 1) };
+  }
+
+  /** Narrows the R2 listing as far as a key prefix allows; `matchesList` does the rest. */
+  private getListPrefix({ identifier, storeName, prefix }: CacheListOptions): string | undefined {
+    if (identifier === undefined) return prefix;
+    return `${identifier}:${storeName ?? prefix ?? ''}`;
+  }
+
+  private matchesList(key: BatchKey, { identifier, storeName, prefix }: CacheListOptions): boolean {
+    if (identifier !== undefined && key.identifier !== identifier) return false;
+    if (storeName !== undefined && key.storeName !== storeName) return false;
+    if (prefix !== undefined) {
+      return (identifier !== undefined ? key.storeName : key.identifier).startsWith(prefix);
+    }
+    return true;
+  }
+
+  private async listPage(
+    options: CacheListOptions,
+    includeExpired = false,
+  ): Promise<CacheListResult> {
+    const listOptions: MetadataListOptions = {
+      limit: Math.min(Math.max(1, options.limit ?? 1000), 1000),
+      include: ['customMetadata'],
+    };
+    const prefix = this.getListPrefix(options);
+    if (prefix) listOptions.prefix = prefix;
+    if (options.cursor) listOptions.cursor = options.cursor;
+    const list: R2Objects = await this.r2Bucket.list(listOptions);
+
+    const now = Date.now();
+    const entries: CacheListEntry[] = [];
+    list.objects.forEach((obj) => {
+      const key = this.parseR2Key(obj.key);
+      if (!key || !this.matchesList(key, options)) return;
+      const metadata = obj.customMetadata;
+      const expirationDate = metadata?.expirationDate ? Number(metadata.expirationDate) : undefined;
+      if (!includeExpired && expirationDate !== undefined && expirationDate < now) return;
+      entries.push({
+        ...key,
+        size: obj.size,
+        uploaded: obj.uploaded,
+        expirationDate,
+        lastAccessedDate: metadata?.lastAccessedDate
+          ? Number(metadata.lastAccessedDate)
+          : undefined,
+        hitCount: metadata?.hitCount ? Number(metadata.hitCount) : undefined,
+      });
+    });
+    return { entries, cursor: list.truncated ? list.cursor : undefined };
+  }
+
+  /**
+   * Lists one page of unexpired entries. Listing by identifier or prefix only reads the
+   * matching part of the bucket; listing by store name alone has to walk all of it.
+   */
+  async list(options: CacheListOptions = {}): Promise<CacheListResult> {
+    try {
+      return await this.listPage(options);
+    } catch (error) {
+      this.emitError('list', error);
+      await ServerLogger.error('Error listing cache entries:', { error, options });
+      return { entries: [] };
+    }
+  }
+
+  /** Deletes every entry matching `options`, including expired ones, and returns the count. */
+  private async clearMatching(options: CacheListOptions): Promise<number> {
+    let removed = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await this.listPage({ ...options, cursor }, true);
+      const keys = page.entries.map(({ identifier, storeName }) =>
+        this.getR2Key(identifier, storeName),
+      );
+      if (keys.length > 0) {
+        await this.r2Bucket.delete(keys);
+        keys.forEach((key, index) => {
+          this.memoryCache.delete(key);
+          this.pendingAccess.delete(key);
+          this.recordStoreChange(key, -1, -page.entries[index].size);
+        });
+        removed += keys.length;
+      }
+      cursor = page.cursor;
+    } while (cursor);
+    return removed;
+  }
+
+  /** Removes one store's entries for every identifier. */
+  async clearStore(storeName: string): Promise<number> {
+    try {
+      const removed = await this.clearMatching({ storeName });
+      await ServerLogger.info(`Cleared store ${storeName}`, { removed });
+      return removed;
+    } catch (error) {
+      this.emitError('clearStore', error);
+      await ServerLogger.error(`Error clearing store ${storeName}:`, { error });
+      return 0;
+    }
+  }
+
+  /** Removes every entry of one identifier, e.g. when that user logs out. */
+  async clearIdentifier(identifier: string): Promise<number> {
+    try {
+      const removed = await this.clearMatching({ identifier });
+      await ServerLogger.info(`Cleared identifier ${identifier}`, { removed });
+      return removed;
+    } catch (error) {
+      this.emitError('clearIdentifier', error);
+      await ServerLogger.error(`Error clearing identifier ${identifier}:`, { error });
+      return 0;
+    }
+  }
+
   async clear(): Promise<void> {
     try {
+      this.memoryCache.clear();
+      this.pendingAccess.clear();
       let cursor: string | undefined;
       do {
         const listOptions: R2ListOptions = { limit: 1000 };
@@ -150,79 +959,521 @@ class ServerlessR2Cache {
         await Promise.all(list.objects.map((obj) => this.r2Bucket.delete(obj.key)));
         cursor = list.truncated ? list.cursor : undefined;
       } while (cursor);
+      // An empty bucket needs no scan to summarize
+      this.entrySummary = summarizeEntries([]);
+      this.storeChanges = {};
     } catch (error) {
+      this.emitError('clear', error);
       await ServerLogger.error('Error clearing cache:', { error });
     }
   }
 
+  private async recordAccess<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const pending = this.pendingAccess.get(key);
+    if (pending) {
+      pending.hits++;
+      pending.lastAccessedDate = entry.lastAccessedDate;
+      pending.expirationDate = entry.expirationDate;
+      pending.version = getEntryVersion(entry);
+    } else {
+      this.pendingAccess.set(key, {
+        hits: 1,
+        lastAccessedDate: entry.lastAccessedDate,
+        expirationDate: entry.expirationDate,
+        version: getEntryVersion(entry),
+      });
+    }
+
+    if (this.pendingAccess.size >= (this.globalConfig.batchSize ?? 100)) {
+      await this.flushAccessStats();
+    } else {
+      this.scheduleAccessFlush();
+    }
+  }
+
+  /** Whether access statistics have waited long enough to be flushed without a full batch. */
+  get accessFlushDue(): boolean {
+    return (
+      this.pendingAccess.size > 0 && Date.now() - this.lastAccessFlush >= ACCESS_FLUSH_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Flushes access statistics after ACCESS_FLUSH_INTERVAL_MS where timers outlive the
+   * request, as in Node. Workers also flush due statistics at the end of each request.
+   */
+  private scheduleAccessFlush(): void {
+    if (this.accessFlushTimer !== undefined) return;
+    this.accessFlushTimer = setTimeout(() => {
+      this.accessFlushTimer = undefined;
+      void this.flushAccessStats();
+    }, ACCESS_FLUSH_INTERVAL_MS);
+    // Pending statistics alone should not keep a Node process running
+    (this.accessFlushTimer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Writes the hit counts and access dates gathered in memory back to R2 in one batch,
+   * instead of re-writing the object on every read.
+   */
+  async flushAccessStats(): Promise<void> {
+    clearTimeout(this.accessFlushTimer);
+    this.accessFlushTimer = undefined;
+    this.lastAccessFlush = Date.now();
+    const pendingAccess = this.pendingAccess;
+    this.pendingAccess = new Map();
+
+    await Promise.all(
+      Array.from(pendingAccess.entries()).map(async ([key, pending]) => {
+        try {
+          // Conditional on the etag, so a set landing between the read and the write is kept
+          for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+            const stored = await this.readStored(key);
+            if (!stored) return;
+
+            const { entry } = stored;
+            entry.hitCount += pending.hits;
+            entry.lastAccessedDate = Math.max(entry.lastAccessedDate, pending.lastAccessedDate);
+            // A sliding extension only applies to the value that was read
+            if (entry.slidingTtl && getEntryVersion(entry) === pending.version) {
+              entry.expirationDate = Math.max(entry.expirationDate, pending.expirationDate);
+            }
+            if ((await this.putEntry(key, entry, { etagMatches: stored.etag })) !== null) {
+              const cached = this.memoryCache.get(key);
+              if (cached && getEntryVersion(cached) === getEntryVersion(entry)) {
+                this.persistedExpirations.set(cached, entry.expirationDate);
+              }
+              return;
+            }
+          }
+          await ServerLogger.warn(`Dropped access statistics for ${key} after repeated conflicts`);
+        } catch (error) {
+          this.emitError('flushAccessStats', error, key);
+          await ServerLogger.error(`Error flushing access statistics for ${key}:`, { error });
+        }
+      }),
+    );
+    await this.flushStats();
+  }
+
+  /**
+   * Adds the counts and store changes gathered since the last flush, and the latest entry
+   * summary, to the statistics stored in R2 and returns the result, or null when it could
+   * not be stored. Unstored counts and changes are kept for the next flush.
+   */
+  private async flushStats(): Promise<StoredStats | null> {
+    this.unflushedCounts = addCounts(this.unflushedCounts, cacheEvents.takeCounts('serverless'));
+    // Changes recorded while this flush runs are left for the next one
+    const storeChanges = this.storeChanges;
+    this.storeChanges = {};
+    try {
+      for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+        const object = await this.r2Bucket.get(STATS_KEY);
+        const stored: StoredStats = object
+          ? JSON.parse(await object.text())
+          : { counts: emptyCounts(), since: this.statsSince };
+        if (
+          !hasCounts(this.unflushedCounts) &&
+          !this.entrySummary &&
+          Object.keys(storeChanges).length === 0
+        ) {
+          return stored;
+        }
+
+        // Another isolate may have stored a newer summary in the meantime
+        const summaryIsNewer =
+          this.entrySummary !== undefined &&
+          (!stored.entries || stored.entries.computedAt < this.entrySummary.computedAt);
+        const entries = summaryIsNewer ? this.entrySummary : stored.entries;
+        const stores = summaryIsNewer
+          ? this.entrySummary!.stores
+          : (stored.stores ?? stored.entries?.stores ?? {});
+        const next: StoredStats = {
+          counts: addCounts(stored.counts, this.unflushedCounts),
+          since: stored.since,
+          entries,
+          stores: applyStoreChanges(stores, storeChanges),
+        };
+        const onlyIf: R2Conditional = object
+          ? { etagMatches: object.etag }
+          : { etagDoesNotMatch: '*' };
+        if ((await this.r2Bucket.put(STATS_KEY, JSON.stringify(next), { onlyIf })) !== null) {
+          this.unflushedCounts = emptyCounts();
+          this.entrySummary = undefined;
+          return next;
+        }
+      }
+      await ServerLogger.warn('Kept cache statistics in memory after repeated conflicts');
+    } catch (error) {
+      this.emitError('flushStats', error);
+      await ServerLogger.error('Error flushing cache statistics:', { error });
+    }
+    Object.entries(storeChanges).forEach(([storeName, { entries, bytes }]) =>
+      this.addStoreChange(storeName, entries, bytes),
+    );
+    return null;
+  }
+
+  /**
+   * Returns totals counted by every isolate as operations happen, per-store sizes kept
+   * current by writes and removals, and the hottest and stale keys found by the latest
+   * eviction pass, so reading statistics never scans the bucket.
+   */
+  async stats(options?: CacheStatsOptions): Promise<CacheStats> {
+    const stored = await this.flushStats();
+    if (stored) {
+      const stats = buildStats(stored.counts, stored.since, stored.entries, options);
+      return { ...stats, stores: stored.stores ?? stats.stores };
+    }
+    // Without the stored totals, report what this isolate has counted
+    return buildStats(this.unflushedCounts, this.statsSince, this.entrySummary, options);
+  }
+
+  /** Returns the expiration date mirrored into the listing, or reads it from the entry. */
+  private async getExpirationDate(object: R2Object): Promise<number | null> {
+    const mirrored = object.customMetadata?.expirationDate;
+    if (mirrored) return Number(mirrored);
+    const stored = await this.readStored(object.key);
+    return stored ? stored.entry.expirationDate : null;
+  }
+
+  /** Deletes expired entries, reading their expiration dates from the listing. */
   async cleanupExpiredItems(): Promise<void> {
     try {
       let cursor: string | undefined;
       const now = Date.now();
       do {
-        const listOptions: R2ListOptions = { limit: 1000 };
+        const listOptions: MetadataListOptions = { limit: 1000, include: ['customMetadata'] };
         if (cursor) listOptions.cursor = cursor;
         const list: R2Objects = await this.r2Bucket.list(listOptions);
         await Promise.all(
           list.objects.map(async (obj) => {
-            const entry: CacheEntry<unknown> = JSON.parse(
-              await (await this.r2Bucket.get(obj.key))!.text(),
-            );
-            if (entry.expirationDate < now) {
+            if (obj.key === STATS_KEY) return;
+            const expirationDate = await this.getExpirationDate(obj);
+            if (expirationDate !== null && expirationDate < now) {
               await this.r2Bucket.delete(obj.key);
+              this.memoryCache.delete(obj.key);
+              this.pendingAccess.delete(obj.key);
+              this.recordStoreChange(obj.key, -1, -obj.size);
+              cacheEvents.emit('expire', this.describeEntry(obj.key));
             }
           }),
         );
         cursor = list.truncated ? list.cursor : undefined;
       } while (cursor);
     } catch (error) {
+      this.emitError('cleanupExpiredItems', error);
       await ServerLogger.error('Error cleaning up expired items:', { error });
     }
   }
-}
 
-let serverlessCache: ServerlessR2Cache | null = null;
+  /**
+   * Re-encrypts every entry still encrypted under a previous key or stored in the
+   * pre-envelope format, so retired keys can eventually be dropped from the
+   * configuration. Returns the number of entries moved.
+   */
+  async rotateEncryption(): Promise<number> {
+    if (!this.config.encryptionEnabled) return 0;
 
-async function initializeServerlessCache(env: Env): Promise<ServerlessR2Cache> {
-  if (!serverlessCache) {
-    const configString = await env.CACHE_CONFIG.get('currentConfig');
-    let config: ServerlessCacheConfig;
-    let globalConfig: GlobalConfig;
+    let rotated = 0;
+    try {
+      let cursor: string | undefined;
+      do {
+        const listOptions: R2ListOptions = { limit: this.globalConfig.batchSize ?? 100 };
+        if (cursor) listOptions.cursor = cursor;
+        const list: R2Objects = await this.r2Bucket.list(listOptions);
+        const results = await Promise.all(
+          list.objects.map(async (obj) => {
+            try {
+              if (obj.key === STATS_KEY) return false;
+              const stored = await this.readStored(obj.key);
+              if (!stored) return false;
 
-    if (configString) {
-      ({ config, globalConfig } = JSON.parse(configString));
-    } else {
-      config = {
-        cacheMaxAge: 3600000,
-        compressionThreshold: 1024,
-        encryptionEnabled: false,
-        encryptionPassword: 'default-password',
-      };
-      globalConfig = {
-        keySize: 256,
-        batchSize: 100,
-        autoTuneInterval: 3600000,
-        loggingEnabled: true,
-        logLevel: 'debug',
-        logDirectory: 'logs',
-        initialize: () => {},
+              const { entry } = stored;
+              if (isValueEnvelope(entry.value) && !isEnvelopeStale(entry.value, this.keyring)) {
+                return false;
+              }
+
+              const { value } = await this.readValue(obj.key, entry.value);
+              entry.value = await this.writeValue(obj.key, value);
+              // Entries written concurrently are already in the current format
+              if ((await this.putEntry(obj.key, entry, { etagMatches: stored.etag })) === null) {
+                return false;
+              }
+              this.memoryCache.delete(obj.key);
+              return true;
+            } catch (error) {
+              this.emitError('rotateEncryption', error, obj.key);
+              await ServerLogger.error(`Error re-encrypting cache entry ${obj.key}:`, { error });
+              return false;
+            }
+          }),
+        );
+        rotated += results.filter(Boolean).length;
+        cursor = list.truncated ? list.cursor : undefined;
+      } while (cursor);
+
+      await ServerLogger.info('Re-encrypted cache entries under the current key', {
+        keyId: this.keyring.currentKey?.keyId,
+        rotated,
+      });
+    } catch (error) {
+      this.emitError('rotateEncryption', error);
+      await ServerLogger.error('Error rotating encryption keys:', { error });
+    }
+    return rotated;
+  }
+
+  private getEvictionCandidate(object: R2Object): EvictionCandidate {
+    const metadata = object.customMetadata;
+    if (metadata && metadata.lastAccessedDate) {
+      return {
+        key: object.key,
+        size: object.size,
+        hitCount: Number(metadata.hitCount),
+        lastAccessedDate: Number(metadata.lastAccessedDate),
+        expirationDate: Number(metadata.expirationDate),
       };
     }
+    // Entries written before metadata was mirrored count as unread since their upload
+    // until their next write, rather than costing a read each
+    return {
+      key: object.key,
+      size: object.size,
+      hitCount: 0,
+      lastAccessedDate: object.uploaded.getTime(),
+      expirationDate: NO_EXPIRY,
+    };
+  }
+
+  /**
+   * Limits for the entries listed by an eviction pass that bring the whole cache within
+   * `cacheSize` and `maxMemoryUsage`. A pass that listed only part of the bucket takes the
+   * cache's totals from the per-store statistics and evicts their excess from its part.
+   */
+  private async getEvictionLimits(
+    candidates: EvictionCandidate[],
+    listedAll: boolean,
+  ): Promise<EvictionLimits> {
+    const limits = { maxEntries: this.config.cacheSize, maxBytes: this.config.maxMemoryUsage };
+    if (listedAll) return limits;
+
+    const stored = await this.flushStats();
+    if (!stored?.stores) {
+      await ServerLogger.warn('Evicting within the listed entries only, without cache totals');
+      return limits;
+    }
+    const listedBytes = candidates.reduce((total, candidate) => total + candidate.size, 0);
+    const stores = Object.values(stored.stores);
+    const totalEntries = stores.reduce((total, store) => total + store.entries, 0);
+    const totalBytes = stores.reduce((total, store) => total + store.bytes, 0);
+    // The listed entries are in the cache even if the statistics missed some of them
+    const excessEntries = Math.max(totalEntries, candidates.length) - limits.maxEntries;
+    const excessBytes = Math.max(totalBytes, listedBytes) - limits.maxBytes;
+    return {
+      maxEntries: Math.max(candidates.length - Math.max(excessEntries, 0), 0),
+      maxBytes: Math.max(listedBytes - Math.max(excessBytes, 0), 0),
+    };
+  }
+
+  /**
+   * Deletes entries the eviction policy selects until the cache is within `cacheSize` and
+   * `maxMemoryUsage`, reading their statistics from the listing. A pass lists at most
+   * MAX_EVICTION_SCAN objects and the next one resumes where it stopped; when the bucket
+   * holds more, a pass evicts the whole cache's excess from the part it listed.
+   */
+  async evict(): Promise<number> {
+    this.writesSinceEviction = 0;
+    try {
+      const candidates: EvictionCandidate[] = [];
+      const startCursor = this.evictionCursor;
+      let cursor = startCursor;
+      let scanned = 0;
+      do {
+        const listOptions: MetadataListOptions = { limit: 1000, include: ['customMetadata'] };
+        if (cursor) listOptions.cursor = cursor;
+        const list: R2Objects = await this.r2Bucket.list(listOptions);
+        scanned += list.objects.length;
+        list.objects
+          .filter((obj) => obj.key !== STATS_KEY)
+          .forEach((obj) => candidates.push(this.getEvictionCandidate(obj)));
+        cursor = list.truncated ? list.cursor : undefined;
+      } while (cursor && scanned < MAX_EVICTION_SCAN);
+      this.evictionCursor = cursor;
+      const listedAll = startCursor === undefined && cursor === undefined;
+
+      const victims = selectEvictionVictims(
+        candidates,
+        getEvictionStrategy(this.config.evictionPolicy),
+        await this.getEvictionLimits(candidates, listedAll),
+      );
+      if (victims.length > 0) {
+        for (let i = 0; i < victims.length; i += MAX_DELETE_KEYS) {
+          await this.r2Bucket.delete(
+            victims.slice(i, i + MAX_DELETE_KEYS).map((victim) => victim.key),
+          );
+        }
+        victims.forEach((victim) => {
+          this.memoryCache.delete(victim.key);
+          this.pendingAccess.delete(victim.key);
+          this.recordStoreChange(victim.key, -1, -victim.size);
+          cacheEvents.emit('evict', {
+            ...this.describeEntry(victim.key),
+            policy: this.config.evictionPolicy,
+            size: victim.size,
+          });
+        });
+        await ServerLogger.info('Evicted cache entries', {
+          policy: this.config.evictionPolicy,
+          evicted: victims.length,
+          remaining: candidates.length - victims.length,
+        });
+      }
 
-    serverlessCache = await ServerlessR2Cache.create(config, globalConfig, env.R2_BUCKET);
+      // A pass that listed the whole bucket also refreshes the entry statistics
+      if (listedAll) {
+        const evicted = new Set(victims.map((victim) => victim.key));
+        const keys: CacheKeyStats[] = [];
+        candidates.forEach((candidate) => {
+          const key = this.parseR2Key(candidate.key);
+          if (!key || evicted.has(candidate.key)) return;
+          keys.push({
+            ...key,
+            hitCount: candidate.hitCount,
+            lastAccessedDate: candidate.lastAccessedDate,
+            size: candidate.size,
+          });
+        });
+        this.entrySummary = summarizeEntries(keys);
+        this.storeChanges = {};
+      }
+      await this.flushStats();
+      return victims.length;
+    } catch (error) {
+      this.emitError('evict', error);
+      await ServerLogger.error('Error evicting cache entries:', { error });
+      return 0;
+    }
+  }
+}
+
+export function toServerlessCacheConfig(serverlessConfig: ServerlessConfig): ServerlessCacheConfig {
+  return {
+    cacheMaxAge: serverlessConfig.cacheMaxAge,
+    cacheSize: serverlessConfig.cacheSize,
+    maxMemoryUsage: serverlessConfig.maxMemoryUsage,
+    evictionPolicy: serverlessConfig.evictionPolicy,
+    memoryCacheSize: serverlessConfig.memoryCacheSize,
+    memoryCacheMaxAge: serverlessConfig.memoryCacheMaxAge,
+    compressionCodec: serverlessConfig.compression.codec,
+    compressionLevel: serverlessConfig.compression.compressionLevel,
+    compressionThreshold: serverlessConfig.compression.threshold,
+    encryptionEnabled: !!serverlessConfig.encryption.encryptionPassword,
+    encryptionPassword: serverlessConfig.encryption.encryptionPassword ?? '',
+    encryptionKeyId: serverlessConfig.encryption.keyId,
+    previousEncryptionKeys: serverlessConfig.encryption.previousKeys ?? [],
+    keyCheckIntervalMs: serverlessConfig.encryption.keyCheckIntervalMs,
+    keyRotationIntervalMs: serverlessConfig.encryption.keyRotationIntervalMs,
+  };
+}
+
+// Holds the pending creation too, so concurrent first requests share one instance
+let serverlessCache: Promise<ServerlessR2Cache> | null = null;
+
+async function loadStoredConfig(
+  env: Env,
+): Promise<{ config: ServerlessCacheConfig; globalConfig: GlobalConfig }> {
+  const configString = await env.CACHE_CONFIG.get('currentConfig');
+  let config = toServerlessCacheConfig(defaultCacheConfig.serverless);
+  let globalConfig: GlobalConfig = { ...defaultCacheConfig.global, initialize: () => {} };
+
+  if (configString) {
+    // Stored configs may predate newer fields, so keep defaults for anything missing
+    const stored = JSON.parse(configString);
+    config = { ...config, ...stored.config };
+    globalConfig = { ...globalConfig, ...stored.globalConfig };
+  }
+  return { config, globalConfig };
+}
+
+async function initializeServerlessCache(env: Env): Promise<ServerlessR2Cache> {
+  if (!serverlessCache) {
+    const creation = loadStoredConfig(env).then(({ config, globalConfig }) =>
+      ServerlessR2Cache.create(config, globalConfig, env.R2_BUCKET),
+    );
+    serverlessCache = creation;
+    // Let the next request retry when creation fails
+    creation.catch(() => {
+      if (serverlessCache === creation) serverlessCache = null;
+    });
   }
   return serverlessCache;
 }
 
-function createServerlessAtom(env: Env, identifier: string, storeName: string) {
+/**
+ * Keeps the key being replaced in `previousEncryptionKeys`, so entries written under it
+ * stay readable until the rotation job has re-encrypted them.
+ */
+function carryOverEncryptionKeys(
+  previousConfig: ServerlessCacheConfig,
+  newConfig: ServerlessCacheConfig,
+): ServerlessCacheConfig {
+  if (!newConfig.encryptionEnabled) return newConfig;
+
+  const keyring = new Keyring(
+    previousConfig.encryptionEnabled ? previousConfig.encryptionPassword : undefined,
+    {
+      keyId: previousConfig.encryptionKeyId,
+      previousKeys: previousConfig.previousEncryptionKeys,
+    },
+  );
+  const currentKey = keyring.addKey(newConfig.encryptionPassword, newConfig.encryptionKeyId);
+  (newConfig.previousEncryptionKeys ?? []).forEach((key) => keyring.addPreviousKey(key));
+
+  return {
+    ...newConfig,
+    encryptionKeyId: currentKey.keyId,
+    previousEncryptionKeys: keyring.previousKeys,
+  };
+}
+
+/**
+ * Binds the cache methods to one entry. With a schema, values are validated on write and
+ * migrated or discarded on read; the methods' type parameter defaults to the schema's.
+ */
+function createServerlessAtom<S = unknown>(
+  env: Env,
+  identifier: string,
+  storeName: string,
+  { schema }: AtomOptions<S> = {},
+) {
+  const schemaFor = <T>() => schema as AtomSchema<T> | undefined;
   return {
-    get: async <T>(): Promise<T | null> => {
+    get: async <T = S>(): Promise<T | null> => {
       const cache = await initializeServerlessCache(env);
-      return cache.get<T>(identifier, storeName);
+      return cache.get<T>(identifier, storeName, schemaFor<T>());
     },
-    set: async <T>(value: T): Promise<void> => {
+    getWithVersion: async <T = S>(): Promise<VersionedValue<T> | null> => {
       const cache = await initializeServerlessCache(env);
-      await cache.set<T>(identifier, storeName, value);
+      return cache.getWithVersion<T>(identifier, storeName, schemaFor<T>());
+    },
+    set: async <T = S>(value: T, options?: ServerlessSetOptions): Promise<string | null> => {
+      const cache = await initializeServerlessCache(env);
+      return cache.set<T>(identifier, storeName, value, options, schemaFor<T>());
+    },
+    getOrSet: async <T = S>(
+      loader: () => T | Promise<T>,
+      options?: GetOrSetOptions,
+    ): Promise<T> => {
+      const cache = await initializeServerlessCache(env);
+      return cache.getOrSet<T>(identifier, storeName, loader, options, schemaFor<T>());
+    },
+    update: async <T = S>(
+      updater: (current: T | null) => T | Promise<T>,
+      options?: ExpirationOptions,
+    ): Promise<T> => {
+      const cache = await initializeServerlessCache(env);
+      return cache.update<T>(identifier, storeName, updater, options, schemaFor<T>());
     },
     remove: async (): Promise<void> => {
       const cache = await initializeServerlessCache(env);
@@ -233,19 +1484,55 @@ function createServerlessAtom(env: Env, identifier: string, storeName: string) {
 
 export const serverless = {
   atom: createServerlessAtom,
+  getMany: async <T>(env: Env, keys: BatchKey[]): Promise<BatchResult<T | null>[]> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.getMany<T>(keys);
+  },
+  getManyStored: async <T>(
+    env: Env,
+    keys: BatchKey[],
+  ): Promise<BatchResult<StoredValue<T> | null>[]> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.getManyStored<T>(keys);
+  },
+  setMany: async <T>(env: Env, items: BatchSetItem<T>[]): Promise<BatchResult[]> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.setMany<T>(items);
+  },
+  removeMany: async (env: Env, keys: BatchKey[]): Promise<BatchResult[]> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.removeMany(keys);
+  },
+  list: async (env: Env, options?: CacheListOptions): Promise<CacheListResult> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.list(options);
+  },
+  clearStore: async (env: Env, storeName: string): Promise<number> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.clearStore(storeName);
+  },
+  clearIdentifier: async (env: Env, identifier: string): Promise<number> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.clearIdentifier(identifier);
+  },
   clear: async (env: Env): Promise<void> => {
     const cache = await initializeServerlessCache(env);
     await cache.clear();
   },
+  stats: async (env: Env, options?: CacheStatsOptions): Promise<CacheStats> => {
+    const cache = await initializeServerlessCache(env);
+    return cache.stats(options);
+  },
   updateConfig: async (
     env: Env,
     newConfig: ServerlessCacheConfig,
     newGlobalConfig: GlobalConfig,
   ): Promise<void> => {
+    const { config: previousConfig } = await loadStoredConfig(env);
     await env.CACHE_CONFIG.put(
       'currentConfig',
       JSON.stringify({
-        config: newConfig,
+        config: carryOverEncryptionKeys(previousConfig, newConfig),
         globalConfig: newGlobalConfig,
       }),
     );
@@ -254,52 +1541,466 @@ export const serverless = {
       ServerEncryptionModule.initialize(newConfig.encryptionPassword, newGlobalConfig);
     }
   },
+  /**
+   * Re-encrypts entries written under previous keys. Runs at most once per
+   * `keyCheckIntervalMs` unless forced, and warns once the current key is older than
+   * `keyRotationIntervalMs`.
+   */
+  rotateEncryption: async (env: Env, force = false): Promise<number> => {
+    const cache = await initializeServerlessCache(env);
+    const keyId = cache.currentKeyId;
+    if (!keyId) return 0;
+
+    const { config } = await loadStoredConfig(env);
+    const now = Date.now();
+    const lastCheck = Number((await env.CACHE_CONFIG.get('lastKeyCheck')) ?? 0);
+    if (!force && now - lastCheck < config.keyCheckIntervalMs) return 0;
+    await env.CACHE_CONFIG.put('lastKeyCheck', now.toString());
+
+    const activatedAtKey = `keyActivatedAt:${keyId}`;
+    const storedActivatedAt = await env.CACHE_CONFIG.get(activatedAtKey);
+    if (storedActivatedAt === null) {
+      await env.CACHE_CONFIG.put(activatedAtKey, now.toString());
+    } else if (now - Number(storedActivatedAt) > config.keyRotationIntervalMs) {
+      await ServerLogger.warn(
+        `Encryption key ${keyId} is older than keyRotationIntervalMs; rotate it with serverless.updateConfig`,
+      );
+    }
+
+    return cache.rotateEncryption();
+  },
 };
 
-const serverlessModule = {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    try {
-      const url = new URL(request.url);
-
-      // Simple routing
-      if (url.pathname === '/get') {
-        const { identifier, storeName } = await request.json();
-        const result = await serverless.atom(env, identifier, storeName).get();
-        return new Response(JSON.stringify(result), {
-          headers: { 'Content-Type': 'application/json' },
+class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ServerlessWorkerOptions {
+  /** Resolves the caller of each request; defaults to `envAuth()`. */
+  authenticate?: Authenticator;
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/** Maps `If-Match: "<version>"` to `ifMatch`, and `If-None-Match: *` to create-only. */
+function readPrecondition(request: Request): Pick<ServerlessSetOptions, 'ifMatch'> {
+  const ifMatch = request.headers.get('If-Match')?.trim();
+  if (ifMatch === '*') {
+    throw new ApiError(400, 'If-Match must name a version');
+  }
+  if (ifMatch) {
+    return { ifMatch: ifMatch.replace(/^W\//, '').replace(/^"(.*)"$/, '$1') };
+  }
+  if (request.headers.get('If-None-Match')?.trim() === '*') {
+    return { ifMatch: null };
+  }
+  return {};
+}
+
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+async function readJsonBody<T>(request: Request): Promise<T> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    throw new ApiError(400, 'Request body must be valid JSON');
+  }
+}
+
+function requireScope(principal: ApiPrincipal, identifier: string, action: ApiAction): void {
+  if (!hasScope(principal, identifier, action)) {
+    throw new ApiError(
+      403,
+      `Not allowed to ${action} ${identifier === '*' ? 'every identifier' : identifier}`,
+    );
+  }
+}
+
+function validateOptions(options: unknown): ExpirationOptions | undefined {
+  if (options === undefined) return undefined;
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new ApiError(400, 'options must be an object');
+  }
+  try {
+    resolveExpiration(options as ExpirationOptions, 0);
+  } catch (error) {
+    throw new ApiError(400, error instanceof Error ? error.message : String(error));
+  }
+  return options as ExpirationOptions;
+}
+
+/** Serves GET, PUT and DELETE on `/v1/:identifier/:storeName`. */
+async function handleEntryRequest(
+  request: Request,
+  env: Env,
+  principal: ApiPrincipal,
+  identifier: string,
+  storeName: string,
+): Promise<Response> {
+  const atom = serverless.atom(env, identifier, storeName);
+
+  switch (request.method) {
+    case 'GET':
+    case 'HEAD': {
+      requireScope(principal, identifier, 'read');
+      const entry = await atom.getWithVersion();
+      if (entry === null) {
+        throw new ApiError(404, `No value stored for ${identifier}/${storeName}`);
+      }
+      const etag = `"${entry.version}"`;
+      if (matchesETag(request.headers.get('If-None-Match'), etag)) {
+        return new Response(null, { status: 304, headers: { ETag: etag } });
+      }
+      if (request.method === 'HEAD') {
+        return new Response(null, { headers: { 'Content-Type': 'application/json', ETag: etag } });
+      }
+      return jsonResponse(entry.value, 200, { ETag: etag });
+    }
+    case 'PUT': {
+      requireScope(principal, identifier, 'write');
+      const body = await readJsonBody<{ value?: unknown; options?: unknown }>(request);
+      if (typeof body !== 'object' || body === null || !('value' in body)) {
+        throw new ApiError(400, 'Request body must be an object with a value field');
+      }
+      let version: string | null;
+      try {
+        version = await atom.set(body.value, {
+          ...validateOptions(body.options),
+          ...readPrecondition(request),
         });
-      } else if (url.pathname === '/set') {
-        const { identifier, storeName, value } = await request.json();
-        await serverless.atom(env, identifier, storeName).set(value);
-        return new Response('OK');
-      } else if (url.pathname === '/remove') {
-        const { identifier, storeName } = await request.json();
-        await serverless.atom(env, identifier, storeName).remove();
-        return new Response('OK');
-      } else if (url.pathname === '/clear') {
-        await serverless.clear(env);
-        return new Response('Cache cleared');
+      } catch (error) {
+        if (error instanceof VersionConflictError) throw new ApiError(412, error.message);
+        throw error;
+      }
+      if (version === null) {
+        throw new Error(`Failed to store ${identifier}/${storeName}`);
       }
+      return new Response(null, { status: 204, headers: { ETag: `"${version}"` } });
+    }
+    case 'DELETE':
+      requireScope(principal, identifier, 'write');
+      await atom.remove();
+      return new Response(null, { status: 204 });
+    default:
+      throw new ApiError(405, `Method ${request.method} is not allowed`);
+  }
+}
 
-      return new Response('Not Found', { status: 404 });
-    } catch (error) {
-      await ServerLogger.error('Worker error:', { error });
-      return new Response('Internal Server Error', { status: 500 });
+function readListOptions(url: URL, identifier?: string): CacheListOptions {
+  const param = (name: string) => url.searchParams.get(name) || undefined;
+  const options: CacheListOptions = {
+    identifier: identifier ?? param('identifier'),
+    storeName: param('storeName'),
+    prefix: param('prefix'),
+    cursor: param('cursor'),
+  };
+  const limit = param('limit');
+  if (limit !== undefined) {
+    options.limit = Number(limit);
+    if (!Number.isInteger(options.limit) || options.limit < 1 || options.limit > 1000) {
+      throw new ApiError(400, 'limit must be an integer from 1 to 1000');
     }
-  },
+  }
+  return options;
+}
+
+/**
+ * Serves `/v1` and `/v1/:identifier`. GET lists entries a page at a time; DELETE clears
+ * one identifier, or on `/v1?storeName=` one store across every identifier.
+ */
+async function handleCollectionRequest(
+  request: Request,
+  env: Env,
+  principal: ApiPrincipal,
+  url: URL,
+  identifier?: string,
+): Promise<Response> {
+  switch (request.method) {
+    case 'GET': {
+      const options = readListOptions(url, identifier);
+      requireScope(principal, options.identifier ?? '*', 'read');
+      return jsonResponse(await serverless.list(env, options));
+    }
+    case 'DELETE': {
+      if (identifier !== undefined) {
+        requireScope(principal, identifier, 'write');
+        return jsonResponse({ removed: await serverless.clearIdentifier(env, identifier) });
+      }
+      const storeName = url.searchParams.get('storeName');
+      if (!storeName) {
+        throw new ApiError(400, 'storeName query parameter is required');
+      }
+      requireScope(principal, '*', 'admin');
+      return jsonResponse({ removed: await serverless.clearStore(env, storeName) });
+    }
+    default:
+      throw new ApiError(405, `Method ${request.method} is not allowed`);
+  }
+}
+
+const MAX_BATCH_ITEMS = 1000;
+
+type BatchOperation = 'get' | 'set' | 'remove';
+
+/**
+ * Serves `POST /v1/batch/{get,set,remove}` with a body of `{ items: [...] }`. Items the
+ * caller may not access fail on their own; the others run through the bulk methods.
+ */
+async function handleBatchRequest(
+  request: Request,
+  env: Env,
+  principal: ApiPrincipal,
+  operation: BatchOperation,
+): Promise<Response> {
+  const body = await readJsonBody<{ items?: unknown }>(request);
+  if (typeof body !== 'object' || body === null || !Array.isArray(body.items)) {
+    throw new ApiError(400, 'Request body must be an object with an items array');
+  }
+  if (body.items.length > MAX_BATCH_ITEMS) {
+    throw new ApiError(400, `A batch can hold at most ${MAX_BATCH_ITEMS} items`);
+  }
+  const items = body.items as BatchSetItem<unknown>[];
+  items.forEach((item, index) => {
+    if (
+      typeof item !== 'object' ||
+      item === null ||
+      typeof item.identifier !== 'string' ||
+      typeof item.storeName !== 'string'
+    ) {
+      throw new ApiError(400, `items[${index}] must have a string identifier and storeName`);
+    }
+    if (operation === 'set' && !('value' in item)) {
+      throw new ApiError(400, `items[${index}] must have a value field`);
+    }
+  });
+
+  const action: ApiAction = operation === 'get' ? 'read' : 'write';
+  const results: BatchResult<unknown>[] = new Array(items.length);
+  const allowed: number[] = [];
+  items.forEach(({ identifier, storeName }, index) => {
+    if (hasScope(principal, identifier, action)) {
+      allowed.push(index);
+    } else {
+      results[index] = {
+        identifier,
+        storeName,
+        ok: false,
+        error: `Not allowed to ${action} ${identifier}`,
+      };
+    }
+  });
+
+  const allowedItems = allowed.map((index) => items[index]);
+  const allowedResults =
+    operation === 'get'
+      ? await serverless.getMany(env, allowedItems)
+      : operation === 'set'
+        ? await serverless.setMany(env, allowedItems)
+        : await serverless.removeMany(env, allowedItems);
+  allowedResults.forEach((result, position) => (results[allowed[position]] = result));
+
+  return jsonResponse({ results });
+}
+
+/**
+ * Handles the pre-v1 POST routes, which take the identifier and store name in the JSON
+ * body. They are kept for existing clients and require the same scopes as v1.
+ */
+async function handleLegacyRequest(
+  request: Request,
+  env: Env,
+  principal: ApiPrincipal,
+  pathname: string,
+): Promise<Response | null> {
+  if (pathname === '/clear') {
+    requireScope(principal, '*', 'admin');
+    await serverless.clear(env);
+    return new Response('Cache cleared');
+  }
+  if (pathname === '/tuning') {
+    return handleTuningRequest(principal);
+  }
+  if (pathname !== '/get' && pathname !== '/set' && pathname !== '/remove') {
+    return null;
+  }
+
+  const { identifier, storeName, value, options } = await readJsonBody<{
+    identifier?: unknown;
+    storeName?: unknown;
+    value?: unknown;
+    options?: unknown;
+  }>(request);
+  if (typeof identifier !== 'string' || typeof storeName !== 'string') {
+    throw new ApiError(400, 'identifier and storeName must be strings');
+  }
+  const atom = serverless.atom(env, identifier, storeName);
+
+  if (pathname === '/get') {
+    requireScope(principal, identifier, 'read');
+    return jsonResponse(await atom.get());
+  }
+  requireScope(principal, identifier, 'write');
+  if (pathname === '/set') {
+    await atom.set(value, validateOptions(options));
+  } else {
+    await atom.remove();
+  }
+  return new Response('OK');
+}
+
+function readStatsOptions(url: URL): CacheStatsOptions {
+  const options: CacheStatsOptions = {};
+  const top = url.searchParams.get('top');
+  if (top) {
+    options.top = Number(top);
+    if (!Number.isInteger(options.top) || options.top < 1 || options.top > 100) {
+      throw new ApiError(400, 'top must be an integer from 1 to 100');
+    }
+  }
+  const staleAfter = url.searchParams.get('staleAfter');
+  if (staleAfter) {
+    options.staleAfter = Number(staleAfter);
+    if (!Number.isFinite(options.staleAfter) || options.staleAfter < 0) {
+      throw new ApiError(400, 'staleAfter must be a non-negative number of milliseconds');
+    }
+  }
+  return options;
+}
+
+/** Serves `GET /stats`; the key lists span every identifier, so it needs read access to all. */
+async function handleStatsRequest(
+  request: Request,
+  env: Env,
+  principal: ApiPrincipal,
+  url: URL,
+): Promise<Response> {
+  if (request.method !== 'GET') {
+    throw new ApiError(405, `Method ${request.method} is not allowed`);
+  }
+  requireScope(principal, '*', 'read');
+  return jsonResponse(await serverless.stats(env, readStatsOptions(url)));
+}
 
-  async scheduled(event: ScheduledEvent, env: Env): Promise<void> {
+function handleTuningRequest(principal: ApiPrincipal): Response {
+  requireScope(principal, '*', 'admin');
+  return jsonResponse(autoTuner.getReport());
+}
+
+/** Flushes access statistics once they are due, so rarely read keys still get theirs written. */
+async function flushDueAccessStats(env: Env): Promise<void> {
+  try {
     const cache = await initializeServerlessCache(env);
-    await cache.cleanupExpiredItems();
-  },
-};
+    if (cache.accessFlushDue) {
+      await cache.flushAccessStats();
+    }
+  } catch (error) {
+    await ServerLogger.error('Error flushing access statistics:', { error });
+  }
+}
+
+function decodePathSegments(segments: string[]): string[] {
+  try {
+    return segments.map(decodeURIComponent);
+  } catch {
+    throw new ApiError(400, 'Malformed identifier or store name');
+  }
+}
 
-// Error handling
-addEventListener('unhandledrejection', async (event: PromiseRejectionEvent) => {
-  await ServerLogger.error('Unhandled Rejection:', {
-    reason: event.reason instanceof Error ? event.reason.message : String(event.reason),
-    stack: event.reason instanceof Error ? event.reason.stack : undefined,
+/** Creates the worker entry points; the default export uses the default options. */
+export function createServerlessWorker(options: ServerlessWorkerOptions = {}) {
+  const authenticate = options.authenticate ?? envAuth();
+
+  return {
+    async fetch(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+      try {
+        const principal = await authenticate(request, env);
+        if (!principal) {
+          throw new ApiError(401, 'Missing or invalid credentials');
+        }
+
+        const url = new URL(request.url);
+        if (url.pathname === '/stats') {
+          return await handleStatsRequest(request, env, principal, url);
+        }
+
+        // Listing an identifier named `tuning` needs the `identifier` query parameter of GET /v1
+        if (url.pathname === '/v1/tuning' && request.method === 'GET') {
+          return handleTuningRequest(principal);
+        }
+
+        const batchMatch = /^\/v1\/batch\/(get|set|remove)$/.exec(url.pathname);
+        if (batchMatch && request.method === 'POST') {
+          return await handleBatchRequest(request, env, principal, batchMatch[1] as BatchOperation);
+        }
+
+        const collectionMatch = /^\/v1(?:\/([^/]+))?$/.exec(url.pathname);
+        if (collectionMatch) {
+          const [identifier] = collectionMatch[1] ? decodePathSegments([collectionMatch[1]]) : [];
+          return await handleCollectionRequest(request, env, principal, url, identifier);
+        }
+
+        const match = /^\/v1\/([^/]+)\/([^/]+)$/.exec(url.pathname);
+        if (match) {
+          const [identifier, storeName] = decodePathSegments(match.slice(1));
+          return await handleEntryRequest(request, env, principal, identifier, storeName);
+        }
+
+        if (request.method === 'POST') {
+          const response = await handleLegacyRequest(request, env, principal, url.pathname);
+          if (response) return response;
+        }
+
+        throw new ApiError(404, 'Not Found');
+      } catch (error) {
+        if (error instanceof ApiError) {
+          const headers: Record<string, string> =
+            error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {};
+          return jsonResponse({ error: error.message }, error.status, headers);
+        }
+        await ServerLogger.error('Worker error:', { error });
+        return jsonResponse({ error: 'Internal Server Error' }, 500);
+      } finally {
+        ctx?.waitUntil(flushDueAccessStats(env));
+      }
+    },
+
+    async scheduled(event: ScheduledEvent, env: Env): Promise<void> {
+      const cache = await initializeServerlessCache(env);
+      await cache.flushAccessStats();
+      await cache.cleanupExpiredItems();
+      await cache.evict();
+      await serverless.rotateEncryption(env);
+    },
+  };
+}
+
+const serverlessModule = createServerlessWorker();
+
+// Error handling; Node has no global addEventListener, so this only applies in workers
+if (typeof addEventListener === 'function') {
+  addEventListener('unhandledrejection', async (event: PromiseRejectionEvent) => {
+    await ServerLogger.error('Unhandled Rejection:', {
+      reason: event.reason instanceof Error ? event.reason.message : String(event.reason),
+      stack: event.reason instanceof Error ? event.reason.stack : undefined,
+    });
   });
-});
+}
 
 export default serverlessModule;
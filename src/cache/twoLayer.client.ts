@@ -0,0 +1,265 @@
+'use client';
+
+import { ExpirationOptions, GlobalConfig } from '../types';
+import { autoTuner } from '../utils/autoTune';
+import { defaultCacheConfig } from '../utils/config';
+import { resolveExpiration } from '../utils/expiration';
+import { ValueEnvelope, createEnvelope, isValueEnvelope, readEnvelope } from '../utils/envelope';
+import { ClientLogger } from 'goobs-testing';
+
+interface TwoLayerConfig {
+  serverlessUrl: string;
+  sessionCacheMaxAge: number;
+  /** Bearer token sent to the worker, e.g. one from `createIdentifierToken`. */
+  authToken?: string;
+  fetch?: typeof fetch;
+}
+
+interface SessionEntry<T> {
+  value: T;
+  expirationDate: number;
+  lastUpdatedDate: number;
+}
+
+// Session entries written before the envelope format hold the raw value
+interface StoredSessionEntry<T> {
+  value: ValueEnvelope | T;
+  expirationDate: number;
+  lastUpdatedDate: number;
+}
+
+const defaultTwoLayerConfig: TwoLayerConfig = {
+  serverlessUrl: '',
+  sessionCacheMaxAge: defaultCacheConfig.session.cacheMaxAge,
+};
+
+const defaultGlobalConfig: Pick<GlobalConfig, 'loggingEnabled' | 'logLevel' | 'logDirectory'> = {
+  loggingEnabled: defaultCacheConfig.global.loggingEnabled,
+  logLevel: defaultCacheConfig.global.logLevel,
+  logDirectory: defaultCacheConfig.global.logDirectory,
+};
+
+const SESSION_KEY_PREFIX = 'twoLayer:';
+
+function getEntryPath(identifier: string, storeName: string): string {
+  return `/v1/${encodeURIComponent(identifier)}/${encodeURIComponent(storeName)}`;
+}
+
+function getSessionKey(identifier: string, storeName: string): string {
+  return `${SESSION_KEY_PREFIX}${identifier}:${storeName}`;
+}
+
+function hasSessionStorage(): boolean {
+  return typeof sessionStorage !== 'undefined';
+}
+
+export const twoLayer = {
+  config: defaultTwoLayerConfig,
+  globalConfig: defaultGlobalConfig,
+
+  /** Sends a request to the worker; a 404 is returned to the caller rather than thrown. */
+  async request(method: string, path: string, body?: unknown): Promise<Response> {
+    const fetchImpl = this.config.fetch ?? fetch;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.authToken) {
+      headers.Authorization = `Bearer ${this.config.authToken}`;
+    }
+    const response = await fetchImpl(`${this.config.serverlessUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Serverless request to ${path} failed with status ${response.status}`);
+    }
+    return response;
+  },
+
+  getSessionValue<T>(identifier: string, storeName: string): SessionEntry<T> | undefined {
+    if (!hasSessionStorage()) return undefined;
+
+    const key = getSessionKey(identifier, storeName);
+    const item = sessionStorage.getItem(key);
+    if (item === null) return undefined;
+
+    try {
+      const entry: StoredSessionEntry<T> = JSON.parse(item);
+      if (Date.now() > entry.expirationDate) {
+        sessionStorage.removeItem(key);
+        ClientLogger.debug(`Session layer value expired for ${identifier}/${storeName}`);
+        return undefined;
+      }
+      const value = isValueEnvelope(entry.value) ? readEnvelope<T>(entry.value) : entry.value;
+      return { ...entry, value };
+    } catch (error) {
+      ClientLogger.warn(`Discarding unreadable session layer value for ${key}`, { error });
+      sessionStorage.removeItem(key);
+      return undefined;
+    }
+  },
+
+  /**
+   * Keeps a value in the session layer until the entry's own expiration, but never for
+   * longer than `sessionCacheMaxAge`.
+   */
+  setSessionValue<T>(
+    identifier: string,
+    storeName: string,
+    value: T,
+    options?: ExpirationOptions,
+  ): void {
+    if (!hasSessionStorage()) return;
+
+    const now = Date.now();
+    const { expirationDate } = resolveExpiration(options, this.config.sessionCacheMaxAge, now);
+    const entry: StoredSessionEntry<T> = {
+      value: createEnvelope(
+        value,
+        autoTuner.getSettings('twoLayer', defaultCacheConfig.session.compression),
+        (sample) => autoTuner.record('twoLayer', sample),
+      ),
+      expirationDate: Math.min(expirationDate, now + this.config.sessionCacheMaxAge),
+      lastUpdatedDate: now,
+    };
+    sessionStorage.setItem(getSessionKey(identifier, storeName), JSON.stringify(entry));
+  },
+
+  async get<T>(identifier: string, storeName: string): Promise<T | null> {
+    const startTime = performance.now();
+    ClientLogger.info(`Getting two-layer cache value for ${identifier}/${storeName}`);
+
+    try {
+      const sessionEntry = this.getSessionValue<T>(identifier, storeName);
+      if (sessionEntry) {
+        ClientLogger.info(`Session layer hit for ${identifier}/${storeName}`, {
+          duration: `${(performance.now() - startTime).toFixed(2)}ms`,
+        });
+        return sessionEntry.value;
+      }
+
+      const response = await this.request('GET', getEntryPath(identifier, storeName));
+      const value: T | null = response.status === 404 ? null : await response.json();
+
+      if (value !== null) {
+        this.setSessionValue(identifier, storeName, value);
+      }
+
+      ClientLogger.info(`Serverless layer ${value !== null ? 'hit' : 'miss'}`, {
+        identifier,
+        storeName,
+        duration: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+      return value;
+    } catch (error) {
+      ClientLogger.error(`Failed to get two-layer cache value for ${identifier}/${storeName}`, {
+        error,
+      });
+      return null;
+    }
+  },
+
+  /** Stores the value in the worker, and in the session layer once the worker took it. */
+  async update<T>(
+    identifier: string,
+    storeName: string,
+    value: T,
+    options?: ExpirationOptions,
+  ): Promise<void> {
+    const startTime = performance.now();
+    ClientLogger.info(`Updating two-layer cache value for ${identifier}/${storeName}`);
+
+    try {
+      await this.request('PUT', getEntryPath(identifier, storeName), { value, options });
+      this.setSessionValue(identifier, storeName, value, options);
+
+      ClientLogger.info(`Two-layer cache value updated for ${identifier}/${storeName}`, {
+        duration: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+    } catch (error) {
+      // The worker may or may not hold the value now, so the next read asks it
+      if (hasSessionStorage()) {
+        sessionStorage.removeItem(getSessionKey(identifier, storeName));
+      }
+      ClientLogger.error(`Failed to update two-layer cache value for ${identifier}/${storeName}`, {
+        error,
+      });
+      throw new Error(`Failed to update two-layer cache value: ${error}`);
+    }
+  },
+
+  async remove(identifier: string, storeName: string): Promise<void> {
+    const startTime = performance.now();
+    ClientLogger.info(`Removing two-layer cache value for ${identifier}/${storeName}`);
+
+    try {
+      if (hasSessionStorage()) {
+        sessionStorage.removeItem(getSessionKey(identifier, storeName));
+      }
+      await this.request('DELETE', getEntryPath(identifier, storeName));
+
+      ClientLogger.info(`Two-layer cache value removed for ${identifier}/${storeName}`, {
+        duration: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+    } catch (error) {
+      ClientLogger.error(`Failed to remove two-layer cache value for ${identifier}/${storeName}`, {
+        error,
+      });
+      throw new Error(`Failed to remove two-layer cache value: ${error}`);
+    }
+  },
+
+  /**
+   * Clears one identifier's entries, which needs `write` on it, e.g. from an identifier
+   * token. Without an identifier it clears the whole cache, which needs an `admin`
+   * credential.
+   */
+  async clear(identifier?: string): Promise<void> {
+    const startTime = performance.now();
+    const target = identifier ?? 'every identifier';
+    ClientLogger.info(`Clearing two-layer cache values of ${target}`);
+
+    try {
+      if (hasSessionStorage()) {
+        const prefix =
+          identifier === undefined ? SESSION_KEY_PREFIX : getSessionKey(identifier, '');
+        const keys: string[] = [];
+        for (let i = 0; i < sessionStorage.length; i++) {
+          const key = sessionStorage.key(i);
+          if (key && key.startsWith(prefix)) {
+            keys.push(key);
+          }
+        }
+        keys.forEach((key) => sessionStorage.removeItem(key));
+      }
+      if (identifier === undefined) {
+        await this.request('POST', '/clear');
+      } else {
+        await this.request('DELETE', `/v1/${encodeURIComponent(identifier)}`);
+      }
+
+      ClientLogger.info(`Two-layer cache values of ${target} cleared`, {
+        duration: `${(performance.now() - startTime).toFixed(2)}ms`,
+      });
+    } catch (error) {
+      ClientLogger.error(`Failed to clear two-layer cache values of ${target}`, { error });
+      throw new Error(`Failed to clear two-layer cache values: ${error}`);
+    }
+  },
+
+  updateConfig(
+    newConfig?: Partial<TwoLayerConfig>,
+    newGlobalConfig?: Partial<Pick<GlobalConfig, 'loggingEnabled' | 'logLevel' | 'logDirectory'>>,
+  ) {
+    ClientLogger.debug('Updating two-layer configuration');
+    if (newConfig) {
+      this.config = { ...this.config, ...newConfig };
+    }
+    if (newGlobalConfig) {
+      this.globalConfig = { ...this.globalConfig, ...newGlobalConfig };
+      ClientLogger.initializeLogger(this.globalConfig);
+    }
+    ClientLogger.info('Two-layer configuration updated');
+  },
+};
+
+export default twoLayer;
@@ -0,0 +1,221 @@
+import { createContext, useCallback, useContext, useEffect, useSyncExternalStore } from 'react';
+
+export interface AtomHookOptions {
+  /**
+   * Suspends the component while the first value loads, and throws a failed first load
+   * to the nearest error boundary.
+   */
+  suspense?: boolean;
+}
+
+export interface AtomHookState {
+  loading: boolean;
+  error: unknown;
+  /** Reads the entry again. */
+  refresh: () => Promise<void>;
+  remove: () => Promise<void>;
+}
+
+export type AtomHookResult<V, SetOptions> = [
+  V,
+  (value: Exclude<V, null | undefined>, options?: SetOptions) => Promise<void>,
+  AtomHookState,
+];
+
+/**
+ * Values hydrated from the server by store key. Hooks render them until their entry has
+ * been read, which shows a value the client wrote since instead.
+ */
+export const AtomHydrationContext = createContext<ReadonlyMap<string, unknown> | null>(null);
+
+/** Stores by the id their hooks look them up with. */
+export type AtomStores = Map<string, AtomStore<unknown>>;
+
+/**
+ * Stores of the hooks rendered below it. `CacheHydrationProvider` gives each of its mounts
+ * its own, so on the server every request reads its entries afresh and never renders
+ * values another request loaded.
+ */
+export const AtomStoresContext = createContext<AtomStores | null>(null);
+
+interface AtomSnapshot<V> {
+  value: V;
+  /** Whether a value has been read or written yet. */
+  loaded: boolean;
+  loading: boolean;
+  error: unknown;
+}
+
+/**
+ * State of one entry shared by every component that uses it. Reads and writes run through
+ * it so components re-render together, and `watch` reports changes made elsewhere while
+ * any component is subscribed.
+ */
+export class AtomStore<V> {
+  private snapshot: AtomSnapshot<V>;
+  private listeners = new Set<() => void>();
+  private pending?: Promise<void>;
+  private stopWatching?: () => void;
+  // Bumped by writes, so a read that started before one does not overwrite it
+  private version = 0;
+
+  constructor(
+    readonly key: string,
+    empty: V,
+    private read: () => V | Promise<V>,
+    private watch: (store: AtomStore<V>) => () => void,
+  ) {
+    this.snapshot = { value: empty, loaded: false, loading: false, error: undefined };
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.stopWatching = this.watch(this);
+      // Changes made while nothing watched the entry were missed
+      if (this.snapshot.loaded) this.load();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stopWatching?.();
+        this.stopWatching = undefined;
+      }
+    };
+  };
+
+  getSnapshot = (): AtomSnapshot<V> => this.snapshot;
+
+  /**
+   * Reads the entry; concurrent calls share one read. Listeners are only called
+   * asynchronously, so a component may start a read while rendering.
+   */
+  load(): Promise<void> {
+    if (this.pending) return this.pending;
+    const version = this.version;
+    this.pending = Promise.resolve()
+      .then(() => {
+        this.update({ ...this.snapshot, loading: true });
+        return this.read();
+      })
+      .then(
+        (value) => {
+          if (version === this.version) {
+            this.update({ value, loaded: true, loading: false, error: undefined });
+          }
+        },
+        (error) => {
+          if (version === this.version) {
+            this.update({ ...this.snapshot, loading: false, error });
+          }
+        },
+      )
+      .finally(() => {
+        this.pending = undefined;
+        if (this.snapshot.loading) this.update({ ...this.snapshot, loading: false });
+      });
+    return this.pending;
+  }
+
+  /**
+   * Returns the error of a failed read and forgets it without re-rendering, so the next
+   * render after an error boundary resets reads again.
+   */
+  takeError(): unknown {
+    const { error } = this.snapshot;
+    this.snapshot = { ...this.snapshot, error: undefined };
+    return error;
+  }
+
+  /** Sets a value read or received elsewhere. */
+  resolve(value: V): void {
+    this.version++;
+    this.update({ value, loaded: true, loading: false, error: undefined });
+  }
+
+  /** Shows `value` at once and stores it, going back to the previous value if that fails. */
+  async write(value: V, persist: () => unknown): Promise<void> {
+    const previous = this.snapshot;
+    this.resolve(value);
+    try {
+      await persist();
+    } catch (error) {
+      this.update({ ...previous, error });
+      throw error;
+    }
+  }
+
+  private update(snapshot: AtomSnapshot<V>): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const sharedStores: AtomStores = new Map();
+
+/** Returns the stores of the nearest `AtomStoresContext`, or `fallback` outside of one. */
+export function useAtomStores(fallback: AtomStores = sharedStores): AtomStores {
+  return useContext(AtomStoresContext) ?? fallback;
+}
+
+/**
+ * Returns the store with `id`, creating it on first use. The id must cover everything
+ * `create` captures, such as the atom's options, since later callers reuse the store.
+ */
+export function getAtomStore<V>(
+  stores: AtomStores,
+  id: string,
+  create: () => AtomStore<V>,
+): AtomStore<V> {
+  let store = stores.get(id) as AtomStore<V> | undefined;
+  if (!store) {
+    store = create();
+    stores.set(id, store as AtomStore<unknown>);
+  }
+  return store;
+}
+
+/** Subscribes a component to an entry's store and loads the entry when it has not been read. */
+export function useAtomStore<V, SetOptions>(
+  store: AtomStore<V>,
+  { suspense }: AtomHookOptions,
+  persist: (value: Exclude<V, null | undefined>, options?: SetOptions) => unknown,
+  remove: () => unknown,
+  empty: V,
+): AtomHookResult<V, SetOptions> {
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+  const hydrated = useContext(AtomHydrationContext);
+  const isHydrated = hydrated?.has(store.key) ?? false;
+  const hydratedValue = hydrated?.get(store.key) as V;
+
+  useEffect(() => {
+    if (!store.getSnapshot().loaded) store.load();
+  }, [store]);
+
+  const setValue = useCallback(
+    (value: Exclude<V, null | undefined>, options?: SetOptions) =>
+      store.write(value, () => persist(value, options)),
+    [store, persist],
+  );
+  const refresh = useCallback(() => store.load(), [store]);
+  const removeValue = useCallback(() => store.write(empty, remove), [store, remove, empty]);
+
+  if (!snapshot.loaded && isHydrated) {
+    return [
+      hydratedValue,
+      setValue,
+      { loading: false, error: undefined, refresh, remove: removeValue },
+    ];
+  }
+  if (suspense && !snapshot.loaded) {
+    if (snapshot.error !== undefined) throw store.takeError();
+    // Suspense renders the component again once the read settles
+    throw store.load();
+  }
+
+  return [
+    snapshot.value,
+    setValue,
+    { loading: snapshot.loading, error: snapshot.error, refresh, remove: removeValue },
+  ];
+}
@@ -0,0 +1,44 @@
+import { DehydrateKey, DehydratedEntry, DehydratedState } from '../types';
+import { serverless } from '../cache/serverless.server';
+import type { Env } from '../cache/serverless.server';
+
+function parseDehydrateKey(key: string | DehydrateKey): DehydrateKey {
+  if (typeof key !== 'string') return key;
+  const separator = key.lastIndexOf(':');
+  if (separator <= 0 || separator === key.length - 1) {
+    throw new Error(`Invalid entry key: ${key}; expected identifier:storeName`);
+  }
+  return { identifier: key.slice(0, separator), storeName: key.slice(separator + 1) };
+}
+
+/**
+ * Reads serverless entries, given as `identifier:storeName` strings or keys naming the
+ * atom they seed, into a state that `CacheHydrationProvider` or `hydrate` applies on the
+ * client. Values must survive JSON serialization to reach the page unchanged.
+ */
+export async function dehydrate(
+  env: Env,
+  keys: (string | DehydrateKey)[],
+): Promise<DehydratedState> {
+  const requested = keys.map(parseDehydrateKey);
+  const results = await serverless.getManyStored<unknown>(env, requested);
+  const entries: DehydratedEntry[] = [];
+  results.forEach((result, index) => {
+    // getManyStored logs the entries it failed to read
+    if (!result.ok || result.value === null) return;
+    const { target } = requested[index];
+    const { value, expirationDate, lastUpdatedDate, schemaVersion } = result.value;
+    entries.push({
+      identifier: result.identifier,
+      storeName: result.storeName,
+      ...(target ? { target } : {}),
+      value,
+      expirationDate,
+      lastUpdatedDate,
+      ...(schemaVersion !== undefined ? { schemaVersion } : {}),
+    });
+  });
+  return { entries };
+}
+
+export default dehydrate;
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { ReactNode, useEffect, useMemo, useState } from 'react';
+import { Provider, createStore, getDefaultStore } from 'jotai';
+import { ClientLogger } from 'goobs-testing';
+import { DehydratedEntry, DehydratedState } from '../types';
+import JotaiClientModule from '../utils/jotai.client';
+import CookieClientModule from '../cache/cookie.client';
+import { AtomHydrationContext, AtomStores, AtomStoresContext } from './atomStore';
+import { getCookieStoreKey } from './useCookieAtom.client';
+
+type JotaiStore = ReturnType<typeof createStore>;
+
+export interface CacheHydrationProviderProps {
+  /** State returned by `dehydrate`; children render unchanged without one. */
+  state?: DehydratedState;
+  /** Jotai store to hydrate atoms into; each mount creates its own by default. */
+  store?: JotaiStore;
+  children?: ReactNode;
+}
+
+const noEntries: DehydratedEntry[] = [];
+
+// Entries each jotai store has been hydrated with, so renders hydrate them only once
+const hydratedEntries = new WeakMap<JotaiStore, WeakSet<DehydratedEntry>>();
+
+function isCookieEntry(entry: DehydratedEntry): boolean {
+  return entry.target === 'cookie';
+}
+
+function hydrateEntry(entry: DehydratedEntry, store: JotaiStore): void {
+  try {
+    if (isCookieEntry(entry)) {
+      CookieClientModule.hydrateItem(entry);
+    } else {
+      JotaiClientModule.hydrateItem(entry, store);
+    }
+  } catch (error) {
+    ClientLogger.error(`Failed to hydrate ${entry.identifier}:${entry.storeName}`, { error });
+  }
+}
+
+/** Sets the atoms of the jotai entries that have atoms, once per store. */
+function hydrateAtoms(entries: DehydratedEntry[], store: JotaiStore): void {
+  let hydrated = hydratedEntries.get(store);
+  if (!hydrated) {
+    hydrated = new WeakSet();
+    hydratedEntries.set(store, hydrated);
+  }
+  entries.forEach((entry) => {
+    if (
+      isCookieEntry(entry) ||
+      hydrated.has(entry) ||
+      JotaiClientModule.getAtoms(entry.identifier, entry.storeName).length === 0
+    ) {
+      return;
+    }
+    hydrated.add(entry);
+    hydrateEntry(entry, store);
+  });
+}
+
+/**
+ * Stores the entries of a dehydrated state in their client atoms, outside React: cookies
+ * are written unless they hold newer values, and jotai atoms are set in jotai's default
+ * store.
+ */
+export function hydrate(state: DehydratedState): void {
+  const store = getDefaultStore();
+  state.entries.forEach((entry) => hydrateEntry(entry, store));
+}
+
+/**
+ * Seeds the atoms of its children with the entries of a dehydrated state, so that the
+ * first render, on the server and on the client, shows them without a read. It wraps its
+ * children in a jotai `Provider` with a store of its own, so server requests never share
+ * atom values. Jotai atoms must have been created when it renders, which module-level
+ * atoms of the page have. Cookie entries are shown by `useCookieAtom` at once and written
+ * to the cookies once the page mounts, unless the cookies hold newer values. The hooks
+ * below it also get their own stores, so server requests never share loaded values.
+ */
+export function CacheHydrationProvider({ state, store, children }: CacheHydrationProviderProps) {
+  const [ownStore] = useState<JotaiStore>(() => createStore());
+  const jotaiStore = store ?? ownStore;
+  const [stores] = useState<AtomStores>(() => new Map());
+  const entries = state?.entries ?? noEntries;
+  const cookieValues = useMemo(
+    () =>
+      new Map(
+        entries
+          .filter(isCookieEntry)
+          .map(({ identifier, storeName, value }) => [
+            getCookieStoreKey(identifier, storeName),
+            value,
+          ]),
+      ),
+    [entries],
+  );
+  hydrateAtoms(entries, jotaiStore);
+
+  useEffect(() => {
+    const hydrated = hydratedEntries.get(jotaiStore);
+    entries.forEach((entry) => {
+      // Atoms hydrated while rendering have stored their values already
+      if (!hydrated?.has(entry)) hydrateEntry(entry, jotaiStore);
+    });
+  }, [entries, jotaiStore]);
+
+  return (
+    <Provider store={jotaiStore}>
+      <AtomStoresContext.Provider value={stores}>
+        <AtomHydrationContext.Provider value={cookieValues}>
+          {children}
+        </AtomHydrationContext.Provider>
+      </AtomStoresContext.Provider>
+    </Provider>
+  );
+}
+
+export default CacheHydrationProvider;
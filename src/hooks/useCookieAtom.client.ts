@@ -0,0 +1,80 @@
+'use client';
+
+import { useMemo } from 'react';
+import { CookieAtomOptions, ExpirationOptions } from '../types';
+import CookieClientModule from '../cache/cookie.client';
+import { CacheEntryEvent, cacheEvents } from '../utils/events';
+import {
+  AtomHookOptions,
+  AtomHookResult,
+  AtomStore,
+  getAtomStore,
+  useAtomStore,
+  useAtomStores,
+} from './atomStore';
+
+export type CookieAtomHookOptions<T> = CookieAtomOptions<T> & AtomHookOptions;
+
+type CookieAtom<T> = ReturnType<typeof CookieClientModule.createAtom<T>>;
+
+/** Key of a cookie's hook store, and of its value in `AtomHydrationContext`. */
+export function getCookieStoreKey(identifier: string, storeName: string): string {
+  return `cookie:${identifier}_${storeName}`;
+}
+
+/** Reads the cookie again when this page writes it, and takes the values other tabs write. */
+function watchCookie<T>(
+  store: AtomStore<T | undefined>,
+  identifier: string,
+  storeName: string,
+  atom: CookieAtom<T>,
+): () => void {
+  const reload = (event: CacheEntryEvent) => {
+    if (
+      event.source === 'cookie' &&
+      event.identifier === identifier &&
+      event.storeName === storeName
+    ) {
+      store.load();
+    }
+  };
+  const stops = [
+    cacheEvents.on('set', reload),
+    cacheEvents.on('remove', reload),
+    cacheEvents.on('expire', reload),
+    atom.subscribe((value) => store.resolve(value)),
+  ];
+  return () => stops.forEach((stop) => stop());
+}
+
+/**
+ * Binds a cookie atom to a component and returns `[value, setValue, { loading, error,
+ * refresh, remove }]`. Components using the same cookie share its value and re-render
+ * when it is written anywhere in the page, or in another tab when `sync` is set.
+ */
+export function useCookieAtom<T>(
+  identifier: string,
+  storeName: string,
+  options: CookieAtomHookOptions<T> = {},
+): AtomHookResult<T | undefined, ExpirationOptions> {
+  const { schema, sync } = options;
+  const atom = useMemo(
+    () => CookieClientModule.createAtom<T>(identifier, storeName, { schema, sync }),
+    [identifier, storeName, schema, sync],
+  );
+  const stores = useAtomStores();
+  const store = getAtomStore(
+    stores,
+    JSON.stringify(['cookie', identifier, storeName, schema?.version ?? null, sync ?? false]),
+    () =>
+      new AtomStore<T | undefined>(
+        getCookieStoreKey(identifier, storeName),
+        undefined,
+        () => atom.get()?.value,
+        (store) => watchCookie(store, identifier, storeName, atom),
+      ),
+  );
+  return useAtomStore(store, options, atom.set, atom.remove, undefined);
+}
+
+export default useCookieAtom;
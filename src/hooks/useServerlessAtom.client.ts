@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { AtomOptions, AtomSchema, ServerlessSetOptions } from '../types';
+import twoLayer from '../cache/twoLayer.client';
+import { validateValue } from '../utils/schema';
+import {
+  AtomHookOptions,
+  AtomHookResult,
+  AtomStore,
+  getAtomStore,
+  useAtomStore,
+  useAtomStores,
+} from './atomStore';
+
+export interface ServerlessAtomHookOptions<T> extends AtomOptions<T>, AtomHookOptions {
+  /** Reads the entry again every this many milliseconds, to see writes from elsewhere. */
+  refreshInterval?: number;
+  /** URL of the worker; defaults to `twoLayer.config.serverlessUrl`. */
+  serverlessUrl?: string;
+  /** Bearer token sent to the worker; defaults to `twoLayer.config.authToken`. */
+  authToken?: string;
+}
+
+interface ServerlessEndpoint {
+  serverlessUrl: string;
+  authToken?: string;
+}
+
+/** Sends a request for one entry to the worker's `/v1` API; a 404 is returned, not thrown. */
+async function requestEntry(
+  endpoint: ServerlessEndpoint,
+  method: string,
+  identifier: string,
+  storeName: string,
+  init: { body?: unknown; headers?: Record<string, string> } = {},
+): Promise<Response> {
+  const fetchImpl = twoLayer.config.fetch ?? fetch;
+  const path = `/v1/${encodeURIComponent(identifier)}/${encodeURIComponent(storeName)}`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...init.headers };
+  if (endpoint.authToken) {
+    headers.Authorization = `Bearer ${endpoint.authToken}`;
+  }
+  const response = await fetchImpl(`${endpoint.serverlessUrl}${path}`, {
+    method,
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Serverless request to ${path} failed with status ${response.status}`);
+  }
+  return response;
+}
+
+/** Turns `ifMatch` into the precondition headers the worker reads. */
+function getPreconditionHeaders(ifMatch: ServerlessSetOptions['ifMatch']): Record<string, string> {
+  if (ifMatch === null) return { 'If-None-Match': '*' };
+  if (ifMatch !== undefined) return { 'If-Match': `"${ifMatch}"` };
+  return {};
+}
+
+function createServerlessEntry<T>(
+  endpoint: ServerlessEndpoint,
+  identifier: string,
+  storeName: string,
+  schema?: AtomSchema<T>,
+) {
+  const check = (value: unknown) => (schema ? validateValue(schema, value) : (value as T));
+  return {
+    async get(): Promise<T | null> {
+      const response = await requestEntry(endpoint, 'GET', identifier, storeName);
+      return response.status === 404 ? null : check(await response.json());
+    },
+    async set(value: T, options?: ServerlessSetOptions): Promise<void> {
+      const { ifMatch, ...expiration } = options ?? {};
+      await requestEntry(endpoint, 'PUT', identifier, storeName, {
+        body: { value: check(value), options: expiration },
+        headers: getPreconditionHeaders(ifMatch),
+      });
+    },
+    async remove(): Promise<void> {
+      await requestEntry(endpoint, 'DELETE', identifier, storeName);
+    },
+  };
+}
+
+/**
+ * Binds a serverless entry to a component through the worker's `/v1` API and returns
+ * `[value, setValue, { loading, error, refresh, remove }]`, with null while the entry
+ * does not exist. Components using the same entry of the same worker share its value and
+ * re-render when one of them changes it.
+ */
+export function useServerlessAtom<T>(
+  identifier: string,
+  storeName: string,
+  options: ServerlessAtomHookOptions<T> = {},
+): AtomHookResult<T | null, ServerlessSetOptions> {
+  const { schema, refreshInterval } = options;
+  const serverlessUrl = options.serverlessUrl ?? twoLayer.config.serverlessUrl;
+  const authToken = options.authToken ?? twoLayer.config.authToken;
+  const entry = useMemo(
+    () => createServerlessEntry<T>({ serverlessUrl, authToken }, identifier, storeName, schema),
+    [serverlessUrl, authToken, identifier, storeName, schema],
+  );
+  const stores = useAtomStores();
+  // Entries of other workers or tokens are kept apart, in a provider's stores as well
+  const store = getAtomStore(
+    stores,
+    JSON.stringify([
+      'serverless',
+      serverlessUrl,
+      authToken ?? null,
+      identifier,
+      storeName,
+      schema?.version ?? null,
+    ]),
+    () =>
+      new AtomStore<T | null>(
+        `serverless:${identifier}:${storeName}`,
+        null,
+        () => entry.get(),
+        // Writes from elsewhere are only seen through `refreshInterval`
+        () => () => {},
+      ),
+  );
+
+  useEffect(() => {
+    if (!refreshInterval) return;
+    const timer = setInterval(() => store.load(), refreshInterval);
+    return () => clearInterval(timer);
+  }, [store, refreshInterval]);
+
+  return useAtomStore(store, options, entry.set, entry.remove, null);
+}
+
+export default useServerlessAtom;
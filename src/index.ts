@@ -1,9 +1,200 @@
 import cookie from './cache/cookie.client';
-import serverless from './cache/serverless.server';
+import cookieServer, { fromNextCookies, fromHeaders } from './cache/cookie.server';
+import serverless, {
+  createServerlessWorker,
+  VersionConflictError,
+} from './cache/serverless.server';
+import type { ServerlessWorkerOptions } from './cache/serverless.server';
+import {
+  anyOf,
+  bearerAuth,
+  createIdentifierToken,
+  envAuth,
+  hmacAuth,
+  identifierTokenAuth,
+  signRequest,
+  FULL_ACCESS,
+} from './utils/apiAuth.server';
+import type {
+  ApiAction,
+  ApiCredential,
+  ApiPrincipal,
+  ApiScope,
+  Authenticator,
+} from './utils/apiAuth.server';
 import jotai from './cache/jotai.client';
+import { useCookieAtom } from './hooks/useCookieAtom.client';
+import type { CookieAtomHookOptions } from './hooks/useCookieAtom.client';
+import { useServerlessAtom } from './hooks/useServerlessAtom.client';
+import type { ServerlessAtomHookOptions } from './hooks/useServerlessAtom.client';
+import type { AtomHookOptions, AtomHookResult, AtomHookState } from './hooks/atomStore';
+import { dehydrate } from './hooks/dehydrate.server';
+import { CacheHydrationProvider, hydrate } from './hooks/hydration.client';
+import type { CacheHydrationProviderProps } from './hooks/hydration.client';
+import twoLayer from './cache/twoLayer.client';
+import { defaultCacheConfig, validateCacheConfig, CacheConfigError } from './utils/config';
+import { loadCacheConfig } from './utils/config.server';
+import { CookieBudgetError } from './utils/cookieChunks';
+import { Keyring, UnknownEncryptionKeyError } from './utils/keyring';
+import type { KeyringOptions } from './utils/keyring';
+import { createEnvelope, readEnvelope, EnvelopeError } from './utils/envelope';
+import type { ValueEnvelope } from './utils/envelope';
+import { registerCodec, listCodecs, UnknownCodecError } from './utils/codecs';
+import type { CompressionCodec } from './utils/codecs';
+import { autoTuner, CompressionAutoTuner } from './utils/autoTune';
+import { SchemaError } from './utils/schema';
+import {
+  WebStorageBackend,
+  MemoryStorageBackend,
+  IndexedDBStorageBackend,
+} from './utils/storageBackend.client';
+import type {
+  StorageBackend,
+  StorageBackendName,
+  WriteErrorHandler,
+} from './utils/storageBackend.client';
+import { cacheEvents, CacheEventEmitter } from './utils/events';
+import type {
+  AnyCacheEventListener,
+  CacheEntryEvent,
+  CacheEventBase,
+  CacheEventListener,
+  CacheEventMap,
+  CacheEventName,
+  CacheEventSource,
+} from './utils/events';
+import type { TuningDecision, TuningReport } from './utils/autoTune';
 
-import { GlobalConfig, LogLevel } from './types';
+import {
+  GlobalConfig,
+  LogLevel,
+  CacheConfig,
+  PartialCacheConfig,
+  EvictionPolicy,
+  ServerlessConfig,
+  SessionConfig,
+  CookieConfig,
+  CompressionConfig,
+  CompressionAlgorithm,
+  EncryptionConfig,
+  EncryptionKey,
+  ExpirationOptions,
+  GetOrSetOptions,
+  CacheResult,
+  BatchKey,
+  BatchSetItem,
+  BatchResult,
+  CacheListOptions,
+  CacheListEntry,
+  CacheListResult,
+  ServerlessSetOptions,
+  VersionedValue,
+  StoredValue,
+  SchemaValidator,
+  AtomSchema,
+  AtomOptions,
+  CookieAtomOptions,
+  CacheStats,
+  CacheStatsOptions,
+  CacheKeyStats,
+  CacheStoreStats,
+  HydrationTarget,
+  DehydrateKey,
+  DehydratedEntry,
+  DehydratedState,
+} from './types';
+import type { CookieJar, CookieAttributes, NextCookieStore } from './cache/cookie.server';
 
-export { cookie, serverless, jotai };
+export { cookie, cookieServer, serverless, jotai, twoLayer };
+export { useCookieAtom, useServerlessAtom };
+export { dehydrate, hydrate, CacheHydrationProvider };
+export { fromNextCookies, fromHeaders };
+export { createServerlessWorker, VersionConflictError };
+export {
+  anyOf,
+  bearerAuth,
+  createIdentifierToken,
+  envAuth,
+  hmacAuth,
+  identifierTokenAuth,
+  signRequest,
+  FULL_ACCESS,
+};
+export { defaultCacheConfig, validateCacheConfig, loadCacheConfig, CacheConfigError };
+export { CookieBudgetError };
+export { Keyring, UnknownEncryptionKeyError };
+export { createEnvelope, readEnvelope, EnvelopeError };
+export { registerCodec, listCodecs, UnknownCodecError };
+export { autoTuner, CompressionAutoTuner };
+export { SchemaError };
+export { WebStorageBackend, MemoryStorageBackend, IndexedDBStorageBackend };
+export { cacheEvents, CacheEventEmitter };
 
-export type { LogLevel, GlobalConfig };
+export type {
+  LogLevel,
+  GlobalConfig,
+  CacheConfig,
+  PartialCacheConfig,
+  EvictionPolicy,
+  ServerlessConfig,
+  SessionConfig,
+  CookieConfig,
+  CompressionConfig,
+  CompressionAlgorithm,
+  EncryptionConfig,
+  EncryptionKey,
+  KeyringOptions,
+  StorageBackend,
+  StorageBackendName,
+  WriteErrorHandler,
+  ValueEnvelope,
+  CompressionCodec,
+  TuningDecision,
+  TuningReport,
+  ServerlessWorkerOptions,
+  ApiAction,
+  ApiCredential,
+  ApiPrincipal,
+  ApiScope,
+  Authenticator,
+  ExpirationOptions,
+  GetOrSetOptions,
+  CacheResult,
+  BatchKey,
+  BatchSetItem,
+  BatchResult,
+  CacheListOptions,
+  CacheListEntry,
+  CacheListResult,
+  ServerlessSetOptions,
+  VersionedValue,
+  StoredValue,
+  SchemaValidator,
+  AtomSchema,
+  AtomOptions,
+  CookieAtomOptions,
+  CacheStats,
+  CacheStatsOptions,
+  CacheKeyStats,
+  CacheStoreStats,
+  CacheEventMap,
+  CacheEventName,
+  CacheEventListener,
+  AnyCacheEventListener,
+  CacheEventSource,
+  CacheEventBase,
+  CacheEntryEvent,
+  CookieJar,
+  CookieAttributes,
+  NextCookieStore,
+  AtomHookOptions,
+  AtomHookResult,
+  AtomHookState,
+  CookieAtomHookOptions,
+  ServerlessAtomHookOptions,
+  CacheHydrationProviderProps,
+  HydrationTarget,
+  DehydrateKey,
+  DehydratedEntry,
+  DehydratedState,
+};
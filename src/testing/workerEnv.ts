@@ -0,0 +1,108 @@
+import type { KVNamespace, R2Bucket } from '@cloudflare/workers-types';
+import type { Env } from '../cache/serverless.server';
+
+interface StoredObject {
+  body: string;
+  etag: string;
+  uploaded: Date;
+  customMetadata: Record<string, string>;
+}
+
+interface PutOptions {
+  customMetadata?: Record<string, string>;
+  onlyIf?: { etagMatches?: string; etagDoesNotMatch?: string };
+}
+
+interface ListOptions {
+  limit?: number;
+  prefix?: string;
+  cursor?: string;
+  include?: ('httpMetadata' | 'customMetadata')[];
+}
+
+/**
+ * In-memory stand-in for the parts of an R2 bucket the serverless cache uses. Like R2 at
+ * current compatibility dates, listings only carry custom metadata when asked to include it.
+ */
+export class MemoryR2Bucket {
+  readonly objects = new Map<string, StoredObject>();
+  private lastEtag = 0;
+
+  async head(key: string) {
+    const object = this.objects.get(key);
+    return object ? this.describe(key, object, true) : null;
+  }
+
+  async get(key: string) {
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return {
+      ...this.describe(key, object, true),
+      text: async () => object.body,
+      json: async () => JSON.parse(object.body),
+    };
+  }
+
+  async put(key: string, body: string, { customMetadata = {}, onlyIf }: PutOptions = {}) {
+    const current = this.objects.get(key);
+    if (onlyIf?.etagMatches !== undefined && current?.etag !== onlyIf.etagMatches) return null;
+    if (onlyIf?.etagDoesNotMatch === '*' && current) return null;
+    const object = { body, etag: `etag-${++this.lastEtag}`, uploaded: new Date(), customMetadata };
+    this.objects.set(key, object);
+    return this.describe(key, object, true);
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    (Array.isArray(keys) ? keys : [keys]).forEach((key) => this.objects.delete(key));
+  }
+
+  async list({ limit = 1000, prefix, cursor, include = [] }: ListOptions = {}) {
+    const keys = [...this.objects.keys()].filter((key) => !prefix || key.startsWith(prefix)).sort();
+    const start = cursor ? Number(cursor) : 0;
+    const truncated = start + limit < keys.length;
+    return {
+      objects: keys
+        .slice(start, start + limit)
+        .map((key) =>
+          this.describe(key, this.objects.get(key)!, include.includes('customMetadata')),
+        ),
+      truncated,
+      cursor: truncated ? String(start + limit) : undefined,
+      delimitedPrefixes: [],
+    };
+  }
+
+  private describe(key: string, object: StoredObject, withMetadata: boolean) {
+    return {
+      key,
+      size: object.body.length,
+      etag: object.etag,
+      uploaded: object.uploaded,
+      customMetadata: withMetadata ? { ...object.customMetadata } : undefined,
+    };
+  }
+}
+
+export class MemoryKVNamespace {
+  readonly values = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
+/** Worker bindings backed by memory, with `CACHE_API_TOKEN` set to `'test-token'`. */
+export function createWorkerEnv(overrides: Partial<Env> = {}) {
+  const bucket = new MemoryR2Bucket();
+  const env: Env = {
+    R2_BUCKET: bucket as unknown as R2Bucket,
+    CACHE_CONFIG: new MemoryKVNamespace() as unknown as KVNamespace,
+    CACHE_API_TOKEN: 'test-token',
+    ...overrides,
+  };
+  return { env, bucket };
+}
@@ -9,3 +9,274 @@ export interface GlobalConfig {
   logDirectory: string;
   initialize: (config: Partial<GlobalConfig>) => void;
 }
+
+export type EvictionPolicy = 'lru' | 'lfu' | 'ttl';
+
+export type CompressionAlgorithm = 'none' | 'lz4' | 'gzip' | 'deflate' | 'brotli';
+
+export interface CompressionConfig {
+  /** Codec for new values; `lz4` is the only codec available in browsers. */
+  codec: CompressionAlgorithm;
+  compressionLevel: number;
+  threshold: number;
+}
+
+export interface EncryptionKey {
+  keyId: string;
+  encryptionPassword: string;
+}
+
+export interface EncryptionConfig {
+  algorithm: string;
+  encryptionPassword?: string;
+  /** Identifier stored with every value encrypted under `encryptionPassword`. */
+  keyId?: string;
+  /** Retired keys, kept so entries written under them can still be read and re-encrypted. */
+  previousKeys?: EncryptionKey[];
+  keyCheckIntervalMs: number;
+  keyRotationIntervalMs: number;
+}
+
+export interface ServerlessConfig {
+  cacheSize: number;
+  cacheMaxAge: number;
+  persistenceInterval: number;
+  maxMemoryUsage: number;
+  evictionPolicy: EvictionPolicy;
+  memoryCacheSize: number;
+  memoryCacheMaxAge: number;
+  prefetchThreshold: number;
+  forceReset: boolean;
+  compression: CompressionConfig;
+  encryption: EncryptionConfig;
+}
+
+export interface SessionConfig {
+  cacheSize: number;
+  cacheMaxAge: number;
+  evictionPolicy: EvictionPolicy;
+  compression: CompressionConfig;
+  encryption: EncryptionConfig;
+}
+
+export interface CookieConfig extends SessionConfig {
+  maxCookieSize: number;
+  maxCookiesPerDomain: number;
+}
+
+export interface CacheConfig {
+  serverless: ServerlessConfig;
+  session: SessionConfig;
+  cookie: CookieConfig;
+  global: Omit<GlobalConfig, 'initialize'>;
+}
+
+export type PartialCacheConfig = {
+  [Section in keyof CacheConfig]?: {
+    [Field in keyof CacheConfig[Section]]?: CacheConfig[Section][Field] extends object
+      ? Partial<CacheConfig[Section][Field]>
+      : CacheConfig[Section][Field];
+  };
+};
+
+export interface ExpirationOptions {
+  /** Lifetime in milliseconds, counted from the write. */
+  ttl?: number;
+  /** Absolute expiration time. */
+  expiresAt?: Date | number;
+  /** Extend the expiration by the entry's lifetime on every read. */
+  slidingExpiration?: boolean;
+  /** Keep the entry until it is removed or evicted. */
+  noExpiry?: boolean;
+}
+
+/** Options of `getOrSet`; the stale windows are counted from the end of the entry's lifetime. */
+export interface GetOrSetOptions extends Omit<ExpirationOptions, 'slidingExpiration'> {
+  /** Milliseconds a stale value is still returned while it is reloaded in the background. */
+  staleWhileRevalidate?: number;
+  /** Milliseconds a stale value is still returned when the loader throws. */
+  staleIfError?: number;
+  /** Keeps background reloads running after the response, e.g. a worker's `ctx.waitUntil`. */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+/** Checks an unknown value and returns it typed, or throws; a zod schema's `parse` fits. */
+export type SchemaValidator<T> = ((value: unknown) => T) | { parse(value: unknown): T };
+
+/**
+ * Shape of the values an atom stores. Entries are stamped with `version` when written;
+ * older entries are upgraded on read by `migrations[n]`, which turns a version-n value
+ * into version n + 1. Entries written before the atom had a schema count as version 1.
+ */
+export interface AtomSchema<T> {
+  version: number;
+  validate?: SchemaValidator<T>;
+  migrations?: Record<number, (value: unknown) => unknown>;
+  /** What happens to entries that cannot be migrated or validated; defaults to `'drop'`. */
+  onInvalid?: 'drop' | 'quarantine';
+}
+
+export interface CacheResult<T> {
+  identifier: string;
+  storeName: string;
+  value: T;
+  expirationDate: Date;
+  lastUpdatedDate: Date;
+  lastAccessedDate: Date;
+  getHitCount: number;
+  setHitCount: number;
+  slidingTtl?: number;
+  /** Set by `getOrSet` when stale windows apply: the value is stale after this date. */
+  freshUntil?: Date;
+  /** Schema version of `value`, when it was written through an atom with a schema. */
+  schemaVersion?: number;
+}
+
+/** Addresses one entry in a bulk operation. */
+export interface BatchKey {
+  identifier: string;
+  storeName: string;
+}
+
+export interface BatchSetItem<T> extends BatchKey {
+  value: T;
+  options?: ExpirationOptions;
+}
+
+/** Outcome of one item of a bulk operation; items succeed or fail independently. */
+export type BatchResult<T = void> = BatchKey &
+  ({ ok: true; value: T } | { ok: false; error: string });
+
+/** Client atom a dehydrated entry seeds. */
+export type HydrationTarget = 'jotai' | 'cookie';
+
+export interface DehydrateKey extends BatchKey {
+  /** Defaults to `'jotai'`. */
+  target?: HydrationTarget;
+}
+
+export interface DehydratedEntry extends DehydrateKey {
+  value: unknown;
+  /** When the entry expires on the server; hydrated entries keep it. */
+  expirationDate?: number;
+  /** When the entry was last written on the server, to tell it from newer client values. */
+  lastUpdatedDate?: number;
+  /** Schema version of `value`, which atoms with a schema migrate from. */
+  schemaVersion?: number;
+}
+
+/**
+ * Serverless entries read while rendering on the server, passed to the page as props and
+ * hydrated into client atoms there. Entries that were missing or failed to load are left out.
+ */
+export interface DehydratedState {
+  entries: DehydratedEntry[];
+}
+
+/**
+ * Selects entries of the serverless cache. `prefix` matches the start of the store name
+ * when `identifier` is given, and the start of the identifier otherwise.
+ */
+export interface CacheListOptions {
+  identifier?: string;
+  storeName?: string;
+  prefix?: string;
+  /** Cursor returned by the previous page. */
+  cursor?: string;
+  /** Objects examined per page, at most 1000. */
+  limit?: number;
+}
+
+export interface CacheListEntry extends BatchKey {
+  size: number;
+  uploaded: Date;
+  expirationDate?: number;
+  lastAccessedDate?: number;
+  hitCount?: number;
+}
+
+/**
+ * One page of entries. Pages may hold fewer than `limit` entries, or none, when a filter
+ * skips objects; `cursor` is set while more pages remain.
+ */
+export interface CacheListResult {
+  entries: CacheListEntry[];
+  cursor?: string;
+}
+
+export interface CacheKeyStats extends BatchKey {
+  hitCount: number;
+  lastAccessedDate: number;
+  size: number;
+}
+
+export interface CacheStoreStats {
+  entries: number;
+  /** Stored size in characters. */
+  bytes: number;
+}
+
+/** Totals counted since `since`, plus entry figures computed at `entriesComputedAt`. */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Hits over hits plus misses; 0 before the first read. */
+  hitRatio: number;
+  sets: number;
+  removes: number;
+  expirations: number;
+  evictions: number;
+  errors: number;
+  stores: Record<string, CacheStoreStats>;
+  hottestKeys: CacheKeyStats[];
+  staleKeys: CacheKeyStats[];
+  compression: {
+    attempts: number;
+    inputBytes: number;
+    savedBytes: number;
+    /** Saved bytes over input bytes. */
+    savingsRatio: number;
+  };
+  since: number;
+  entriesComputedAt?: number;
+}
+
+export interface CacheStatsOptions {
+  /** Length of the hottest and stale key lists; defaults to 10. */
+  top?: number;
+  /** Keys not read for this many milliseconds are stale; defaults to one day. */
+  staleAfter?: number;
+}
+
+/** Write options of the serverless cache. */
+export interface ServerlessSetOptions extends ExpirationOptions {
+  /**
+   * Only write if the entry is still at this version; `null` only writes if no entry
+   * exists. Otherwise the write fails with `VersionConflictError`.
+   */
+  ifMatch?: string | null;
+}
+
+/** A stored value with the version of the entry holding it. */
+export interface VersionedValue<T> {
+  value: T;
+  version: string;
+}
+
+/** A stored value with the dates and schema version of the entry holding it. */
+export interface StoredValue<T> extends VersionedValue<T> {
+  expirationDate: number;
+  lastUpdatedDate: number;
+  /** Schema version of `value`, when it was written through an atom with a schema. */
+  schemaVersion?: number;
+}
+
+/** Options of serverless and cookie atoms. */
+export interface AtomOptions<T> {
+  schema?: AtomSchema<T>;
+}
+
+export interface CookieAtomOptions<T> extends AtomOptions<T> {
+  /** Tells other tabs of the origin about writes, so their `subscribe` listeners run. */
+  sync?: boolean;
+}
@@ -0,0 +1,90 @@
+import {
+  createIdentifierToken,
+  hmacAuth,
+  identifierTokenAuth,
+  signRequest,
+} from '../apiAuth.server';
+
+const credential = { id: 'backend:eu', secret: 'backend-secret', scopes: [] };
+const authenticate = hmacAuth([credential]);
+
+function createRequest(authorization?: string): Request {
+  return new Request('https://cache.example/v1/alice/prefs', {
+    method: 'PUT',
+    headers: authorization ? { Authorization: authorization } : {},
+    body: JSON.stringify({ value: 1 }),
+  });
+}
+
+describe('hmacAuth', () => {
+  it('accepts a signed request from a key id containing colons', async () => {
+    const authorization = await signRequest(createRequest(), credential);
+    expect(await authenticate(createRequest(authorization), {})).toEqual({
+      id: 'backend:eu',
+      scopes: [],
+    });
+  });
+
+  it('rejects a tampered body', async () => {
+    const authorization = await signRequest(createRequest(), credential);
+    const request = new Request('https://cache.example/v1/alice/prefs', {
+      method: 'PUT',
+      headers: { Authorization: authorization },
+      body: JSON.stringify({ value: 2 }),
+    });
+    expect(await authenticate(request, {})).toBeNull();
+  });
+
+  it('rejects signatures outside the allowed clock skew', async () => {
+    const authorization = await signRequest(createRequest(), credential, Date.now() - 600000);
+    expect(await authenticate(createRequest(authorization), {})).toBeNull();
+  });
+
+  it('rejects a timestamp that is not a number', async () => {
+    const authorization = await signRequest(createRequest(), credential);
+    const [, signature] = /:([^:]*)$/.exec(authorization)!;
+    expect(await authenticate(createRequest(`HMAC backend:eu:soon:${signature}`), {})).toBeNull();
+  });
+
+  it('rejects malformed headers', async () => {
+    expect(await authenticate(createRequest('HMAC backend'), {})).toBeNull();
+    expect(await authenticate(createRequest('HMAC :1:abc'), {})).toBeNull();
+    expect(await authenticate(createRequest(), {})).toBeNull();
+  });
+});
+
+describe('identifierTokenAuth', () => {
+  const authenticateToken = identifierTokenAuth('identifier-secret');
+  const withToken = (token: string) => createRequest(`Bearer ${token}`);
+
+  it('accepts a token until it expires', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'alice', 60000);
+    expect(await authenticateToken(withToken(token), {})).toEqual({
+      id: 'identifier:alice',
+      scopes: [{ identifier: 'alice', actions: ['read', 'write'] }],
+    });
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await createIdentifierToken(
+      'identifier-secret',
+      'alice',
+      60000,
+      Date.now() - 120000,
+    );
+    expect(await authenticateToken(withToken(token), {})).toBeNull();
+  });
+
+  it('rejects a token whose expiration was extended', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'alice', 60000);
+    const [identifier, expiresAt, signature] = token.split('.');
+    const extended = `${identifier}.${Number(expiresAt) + 86400000}.${signature}`;
+    expect(await authenticateToken(withToken(extended), {})).toBeNull();
+  });
+
+  it('rejects tokens without an expiration', async () => {
+    const token = await createIdentifierToken('identifier-secret', 'alice');
+    const [identifier, , signature] = token.split('.');
+    expect(await authenticateToken(withToken(`${identifier}.${signature}`), {})).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { CookieCodec } from '../cookieCodec';
+import { Keyring } from '../keyring';
+
+describe('CookieCodec', () => {
+  it('round-trips a value through an encrypted cookie', () => {
+    const keyring = new Keyring('cookie-password', { keyId: 'v1' });
+    const cookieValue = CookieCodec.encode('user_prefs', { theme: 'dark' }, keyring);
+
+    expect(cookieValue).toBeDefined();
+    expect(decodeURIComponent(cookieValue!)).not.toContain('dark');
+    expect(CookieCodec.decode('user_prefs', cookieValue!, keyring)).toEqual({
+      value: { theme: 'dark' },
+      stale: false,
+    });
+  });
+
+  it('reads cookies encrypted under a previous key and marks them stale', () => {
+    const previous = new Keyring('old-password', { keyId: 'v1' });
+    const cookieValue = CookieCodec.encode('user_prefs', 'value', previous)!;
+    const keyring = new Keyring('new-password', {
+      keyId: 'v2',
+      previousKeys: [{ keyId: 'v1', encryptionPassword: 'old-password' }],
+    });
+
+    expect(CookieCodec.decode('user_prefs', cookieValue, keyring)).toEqual({
+      value: 'value',
+      stale: true,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  EnvelopeError,
+  createEnvelope,
+  getEncryptedData,
+  openEnvelope,
+  readEnvelope,
+  sealEnvelope,
+} from '../envelope';
+import { UnknownCodecError, listCodecs } from '../codecs';
+import '../codecs.server';
+import { CompressionAlgorithm } from '../../types';
+
+const values: Record<string, unknown> = {
+  object: { name: 'Ada', tags: ['a', 'b'], nested: { count: 3, enabled: true, none: null } },
+  array: [1, 'two', { three: 3 }],
+  number: 42,
+  boolean: false,
+  null: null,
+  undefined: undefined,
+  'empty string': '',
+  'ASCII string': 'plain text',
+  'non-BMP Unicode': 'emoji 😀, clef 𝄞, CJK 𠜎 and ünïcödé',
+  'Unicode in an object': { greeting: 'こんにちは 👋', surrogates: '\u{1F600}\u{10FFFF}' },
+  binary: new Uint8Array([0, 1, 2, 127, 128, 254, 255]),
+  'empty binary': new Uint8Array(0),
+};
+
+// Long enough to pass the threshold and compressible, so every codec is actually used
+const repeated = (value: string) => value.repeat(200);
+const compressible: Record<string, unknown> = {
+  object: { items: Array.from({ length: 100 }, (_, i) => ({ id: i, label: 'item' })) },
+  'non-BMP Unicode': repeated('😀𝄞𠜎 '),
+  binary: new Uint8Array(4096).map((_, i) => i % 16),
+};
+
+const algorithms: CompressionAlgorithm[] = ['none', 'lz4', 'gzip', 'deflate', 'brotli'];
+
+describe('envelope round trips', () => {
+  it('registers every codec', () => {
+    expect(listCodecs()).toEqual(expect.arrayContaining(['lz4', 'gzip', 'deflate', 'brotli']));
+  });
+
+  describe.each(algorithms)('with codec %s', (codec) => {
+    it.each(Object.entries(values))('restores %s', (_name, value) => {
+      const envelope = createEnvelope(value, { codec, threshold: 0 });
+      expect(envelope.enc).toBe(false);
+      expect(readEnvelope(JSON.parse(JSON.stringify(envelope)))).toEqual(value);
+    });
+
+    it.each(Object.entries(compressible))('compresses and restores %s', (_name, value) => {
+      const envelope = createEnvelope(value, { codec, threshold: 0 });
+      expect(envelope.alg).toBe(codec);
+      expect(readEnvelope(JSON.parse(JSON.stringify(envelope)))).toEqual(value);
+    });
+  });
+
+  it('restores binary values as Uint8Array', () => {
+    const restored = readEnvelope<Uint8Array>(createEnvelope(new Uint8Array([1, 2, 3])));
+    expect(restored).toBeInstanceOf(Uint8Array);
+    expect(Array.from(restored)).toEqual([1, 2, 3]);
+  });
+
+  it('stores values below the threshold uncompressed', () => {
+    const envelope = createEnvelope(repeated('a'), { codec: 'gzip', threshold: 10000 });
+    expect(envelope.alg).toBe('none');
+  });
+
+  it('keeps the payload uncompressed when compression does not shrink it', () => {
+    const envelope = createEnvelope('x', { codec: 'brotli', threshold: 0 });
+    expect(envelope.alg).toBe('none');
+    expect(readEnvelope(envelope)).toBe('x');
+  });
+
+  it('reports each compression attempt', () => {
+    const onCompress = jest.fn();
+    createEnvelope(repeated('abc'), { codec: 'deflate', threshold: 0 }, onCompress);
+    expect(onCompress).toHaveBeenCalledWith(
+      expect.objectContaining({ inputBytes: 600, outputBytes: expect.any(Number) }),
+    );
+  });
+
+  it('throws UnknownCodecError for a codec that is not registered', () => {
+    const envelope = { ...createEnvelope('value'), alg: 'zstd' as CompressionAlgorithm };
+    expect(() => readEnvelope(envelope)).toThrow(UnknownCodecError);
+  });
+});
+
+describe('sealed envelopes', () => {
+  const encrypted = {
+    keyId: 'v2',
+    data: {
+      encryptedValue: Buffer.from([9, 8, 7, 6]),
+      iv: Buffer.from([1, 1, 1]),
+      salt: Buffer.from([2, 2, 2]),
+      authTag: Buffer.from([3, 3, 3]),
+    },
+  };
+
+  it('carries the ciphertext and parameters through JSON', () => {
+    const sealed = sealEnvelope(createEnvelope({ secret: '🔑' }), encrypted);
+    expect(sealed.enc).toBe(true);
+    expect(sealed.keyId).toBe('v2');
+
+    const { keyId, data } = getEncryptedData(JSON.parse(JSON.stringify(sealed)));
+    expect(keyId).toBe('v2');
+    expect(Array.from(data.encryptedValue)).toEqual([9, 8, 7, 6]);
+    expect(Array.from(data.iv)).toEqual([1, 1, 1]);
+    expect(Array.from(data.salt)).toEqual([2, 2, 2]);
+    expect(Array.from(data.authTag)).toEqual([3, 3, 3]);
+  });
+
+  it('reads again once the decrypted payload is put back', () => {
+    const envelope = createEnvelope({ secret: '🔑' }, { codec: 'gzip', threshold: 0 });
+    const sealed = sealEnvelope(envelope, encrypted);
+    expect(() => readEnvelope(sealed)).toThrow(EnvelopeError);
+    expect(readEnvelope(openEnvelope(sealed, envelope.data))).toEqual({ secret: '🔑' });
+  });
+
+  it('rejects ciphertext that is not binary', () => {
+    const notBinary = { ...encrypted, data: { ...encrypted.data, encryptedValue: 'text' } };
+    expect(() => sealEnvelope(createEnvelope('value'), notBinary)).toThrow(EnvelopeError);
+  });
+
+  it('rejects unsealed envelopes', () => {
+    expect(() => getEncryptedData(createEnvelope('value'))).toThrow(EnvelopeError);
+  });
+});
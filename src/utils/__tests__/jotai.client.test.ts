@@ -0,0 +1,206 @@
+import { createStore } from 'jotai';
+import JotaiClientModule from '../jotai.client';
+import { getExpirationKey } from '../expiration';
+import { getSchemaVersionKey } from '../schema';
+import { StorageBackend, WriteErrorHandler } from '../storageBackend.client';
+
+/**
+ * Backend that, like IndexedDB, accepts every write at once and reports the writes that
+ * do not fit in `quota` characters afterwards.
+ */
+class AsyncQuotaBackend implements StorageBackend {
+  readonly name = 'async-quota';
+  readonly entries = new Map<string, string>();
+  private handlers = new Set<WriteErrorHandler>();
+
+  constructor(private quota: number) {}
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+    const used = [...this.entries.values()].reduce((total, item) => total + item.length, 0);
+    if (used > this.quota) {
+      const error = Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' });
+      queueMicrotask(() => this.handlers.forEach((handler) => handler(key, value, error)));
+    }
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  onWriteError(handler: WriteErrorHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// Random text, which compression cannot shrink
+function randomText(length: number): string {
+  return Array.from({ length }, () =>
+    String.fromCharCode(33 + Math.floor(Math.random() * 94)),
+  ).join('');
+}
+
+describe('asynchronous write failures', () => {
+  it('evicts atoms and retries a write that exceeded the quota', async () => {
+    const backend = new AsyncQuotaBackend(2500);
+    const value = randomText(1500);
+    JotaiClientModule.saveItem('user', 'old', randomText(1500), {}, undefined, backend);
+    await flush();
+    JotaiClientModule.saveItem('user', 'new', value, {}, undefined, backend);
+    await flush();
+
+    expect(JotaiClientModule.loadItem('user', 'new', undefined, backend)).toBe(value);
+    expect(JotaiClientModule.loadItem('user', 'old', undefined, backend)).toBeUndefined();
+  });
+
+  it('drops a write that does not fit even in an empty backend', async () => {
+    const backend = new AsyncQuotaBackend(100);
+    JotaiClientModule.saveItem('user', 'huge', randomText(1000), {}, undefined, backend);
+    await flush();
+
+    expect(backend.getItem('user:huge')).toBeNull();
+  });
+});
+
+describe('hydrateItem', () => {
+  const defaultStorage = JotaiClientModule.storage;
+  afterEach(() => {
+    JotaiClientModule.storage = defaultStorage;
+  });
+
+  it('stores an entry without atoms with its expiration date and schema version', () => {
+    const backend = new AsyncQuotaBackend(10000);
+    JotaiClientModule.setStorageBackend(backend);
+    const expirationDate = Date.now() + 60000;
+    JotaiClientModule.hydrateItem({
+      identifier: 'user',
+      storeName: 'settings',
+      value: { theme: 'dark' },
+      expirationDate,
+      schemaVersion: 3,
+    });
+
+    expect(JotaiClientModule.loadItem('user', 'settings', undefined, backend)).toEqual({
+      theme: 'dark',
+    });
+    expect(JSON.parse(backend.getItem(getExpirationKey('user', 'settings')) ?? '{}')).toEqual({
+      expirationDate,
+    });
+    expect(backend.getItem(getSchemaVersionKey('user', 'settings'))).toBe('3');
+  });
+
+  it('migrates the value from the server schema version for atoms with a schema', () => {
+    const backend = new AsyncQuotaBackend(10000);
+    const atom = JotaiClientModule.atom<{ name: string } | null>(null, {
+      identifier: 'user',
+      storeName: 'profile',
+      schema: { version: 2, migrations: { 1: (value) => ({ name: value }) } },
+      storage: backend,
+    });
+    const store = createStore();
+    JotaiClientModule.hydrateItem(
+      { identifier: 'user', storeName: 'profile', value: 'Ada', schemaVersion: 1 },
+      store,
+    );
+
+    expect(store.get(atom)).toEqual({ name: 'Ada' });
+  });
+
+  it('skips entries that have expired', () => {
+    const backend = new AsyncQuotaBackend(10000);
+    JotaiClientModule.setStorageBackend(backend);
+    JotaiClientModule.hydrateItem({
+      identifier: 'user',
+      storeName: 'expired',
+      value: 'old',
+      expirationDate: Date.now() - 1000,
+    });
+
+    expect(backend.getItem('user:expired')).toBeNull();
+  });
+
+  describe('in the browser', () => {
+    const globals = globalThis as { window?: unknown };
+    beforeEach(() => {
+      globals.window = globalThis;
+    });
+    afterEach(() => {
+      delete globals.window;
+    });
+
+    it('keeps a client value written after the server entry', () => {
+      const backend = new AsyncQuotaBackend(10000);
+      JotaiClientModule.setStorageBackend(backend);
+      JotaiClientModule.saveItem('user', 'draft', 'client', {}, undefined, backend);
+      JotaiClientModule.hydrateItem({
+        identifier: 'user',
+        storeName: 'draft',
+        value: 'server',
+        lastUpdatedDate: Date.now() - 60000,
+      });
+
+      expect(JotaiClientModule.loadItem('user', 'draft', undefined, backend)).toBe('client');
+    });
+
+    it('overwrites a client value older than the server entry', () => {
+      const backend = new AsyncQuotaBackend(10000);
+      const atom = JotaiClientModule.atom<string | null>(null, {
+        identifier: 'user',
+        storeName: 'note',
+        storage: backend,
+      });
+      JotaiClientModule.saveItem('user', 'note', 'client', {}, undefined, backend);
+      const store = createStore();
+      JotaiClientModule.hydrateItem(
+        {
+          identifier: 'user',
+          storeName: 'note',
+          value: 'server',
+          lastUpdatedDate: Date.now() + 60000,
+        },
+        store,
+      );
+
+      expect(store.get(atom)).toBe('server');
+    });
+  });
+});
+
+describe('encryption', () => {
+  afterEach(() => JotaiClientModule.keyring.clear());
+
+  it('reads back values encrypted under the current and previous keys', () => {
+    const backend = new AsyncQuotaBackend(10000);
+    JotaiClientModule.keyring.addKey('first-password', 'v1');
+    expect(
+      JotaiClientModule.saveItem('user', 'secret', { pin: 1234 }, {}, undefined, backend),
+    ).toBe(true);
+    expect(backend.getItem('user:secret')).not.toContain('1234');
+    expect(JotaiClientModule.loadItem('user', 'secret', undefined, backend)).toEqual({ pin: 1234 });
+
+    JotaiClientModule.keyring.addKey('second-password', 'v2');
+    expect(JotaiClientModule.loadItem('user', 'secret', undefined, backend)).toEqual({ pin: 1234 });
+    expect(JSON.parse(backend.getItem('user:secret')!).keyId).toBe('v2');
+  });
+
+  it('does not read values encrypted under a key it does not hold', () => {
+    const backend = new AsyncQuotaBackend(10000);
+    JotaiClientModule.keyring.addKey('first-password', 'v1');
+    JotaiClientModule.saveItem('user', 'secret', 'value', {}, undefined, backend);
+    JotaiClientModule.keyring.clear();
+    JotaiClientModule.keyring.addKey('other-password', 'v1');
+
+    expect(() => JotaiClientModule.loadItem('user', 'secret', undefined, backend)).toThrow();
+  });
+});
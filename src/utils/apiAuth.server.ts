@@ -0,0 +1,267 @@
+export type ApiAction = 'read' | 'write' | 'admin';
+
+/** Grants `actions` on one identifier, or on every identifier with `'*'`. */
+export interface ApiScope {
+  identifier: string;
+  actions: ApiAction[];
+}
+
+export interface ApiPrincipal {
+  id: string;
+  scopes: ApiScope[];
+}
+
+/** Worker bindings read by `envAuth`. */
+export interface ApiAuthEnv {
+  CACHE_API_TOKEN?: string;
+  CACHE_HMAC_SECRET?: string;
+  CACHE_IDENTIFIER_TOKEN_SECRET?: string;
+}
+
+/** Resolves the caller of a request, or null when it carries no valid credentials. */
+export type Authenticator = (request: Request, env: ApiAuthEnv) => Promise<ApiPrincipal | null>;
+
+export interface ApiCredential {
+  id: string;
+  secret: string;
+  scopes: ApiScope[];
+}
+
+export const FULL_ACCESS: ApiScope[] = [{ identifier: '*', actions: ['read', 'write', 'admin'] }];
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+/** Compares digests rather than the strings, so the comparison time reveals nothing. */
+async function safeEqual(a: string, b: string): Promise<boolean> {
+  const [digestA, digestB] = await Promise.all([sha256Hex(a), sha256Hex(b)]);
+  let difference = 0;
+  for (let i = 0; i < digestA.length; i++) {
+    difference |= digestA.charCodeAt(i) ^ digestB.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function getAuthorization(request: Request, scheme: string): string | null {
+  const header = request.headers.get('Authorization');
+  if (!header || !header.toLowerCase().startsWith(`${scheme.toLowerCase()} `)) return null;
+  return header.slice(scheme.length + 1).trim();
+}
+
+export function hasScope(principal: ApiPrincipal, identifier: string, action: ApiAction): boolean {
+  return principal.scopes.some(
+    (scope) =>
+      (scope.identifier === '*' || scope.identifier === identifier) &&
+      (scope.actions.includes(action) || scope.actions.includes('admin')),
+  );
+}
+
+/** Accepts `Authorization: Bearer <token>` for any of `tokens`. */
+export function bearerAuth(tokens: ApiCredential[]): Authenticator {
+  return async (request) => {
+    const token = getAuthorization(request, 'Bearer');
+    if (!token) return null;
+    for (const credential of tokens) {
+      if (await safeEqual(token, credential.secret)) {
+        return { id: credential.id, scopes: credential.scopes };
+      }
+    }
+    return null;
+  };
+}
+
+async function getStringToSign(request: Request, timestamp: string): Promise<string> {
+  const url = new URL(request.url);
+  const body = request.body ? await request.clone().arrayBuffer() : new ArrayBuffer(0);
+  return [request.method, `${url.pathname}${url.search}`, timestamp, await sha256Hex(body)].join(
+    '\n',
+  );
+}
+
+/**
+ * Returns the `Authorization` header for an HMAC-signed request: the method, path,
+ * timestamp and body hash, signed with the credential's secret.
+ */
+export async function signRequest(
+  request: Request,
+  credential: Pick<ApiCredential, 'id' | 'secret'>,
+  timestamp = Date.now(),
+): Promise<string> {
+  const signature = await hmacHex(
+    credential.secret,
+    await getStringToSign(request, timestamp.toString()),
+  );
+  return `HMAC ${credential.id}:${timestamp}:${signature}`;
+}
+
+/**
+ * Splits `<keyId>:<timestamp>:<signature>` at its last two colons, so key ids may
+ * contain colons themselves.
+ */
+function parseHmacAuthorization(
+  value: string | null,
+): { keyId: string; timestamp: string; signature: string } | null {
+  const signatureStart = value?.lastIndexOf(':') ?? -1;
+  const timestampStart = signatureStart > 0 ? value!.lastIndexOf(':', signatureStart - 1) : -1;
+  if (!value || timestampStart <= 0) return null;
+  return {
+    keyId: value.slice(0, timestampStart),
+    timestamp: value.slice(timestampStart + 1, signatureStart),
+    signature: value.slice(signatureStart + 1),
+  };
+}
+
+/**
+ * Accepts requests signed with `signRequest` by any of `keys`. Signatures older or
+ * newer than `maxClockSkewMs` are rejected, so captured requests cannot be replayed
+ * later.
+ */
+export function hmacAuth(keys: ApiCredential[], maxClockSkewMs = 300000): Authenticator {
+  return async (request) => {
+    const parsed = parseHmacAuthorization(getAuthorization(request, 'HMAC'));
+    if (!parsed) return null;
+    const { keyId, timestamp, signature } = parsed;
+    const credential = keys.find((key) => key.id === keyId);
+    const signedAt = Number(timestamp);
+    if (
+      !credential ||
+      !signature ||
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() - signedAt) > maxClockSkewMs
+    ) {
+      return null;
+    }
+    const expected = await hmacHex(credential.secret, await getStringToSign(request, timestamp));
+    return (await safeEqual(signature, expected))
+      ? { id: credential.id, scopes: credential.scopes }
+      : null;
+  };
+}
+
+function toBase64Url(value: string): string {
+  return btoa(String.fromCharCode(...Array.from(encoder.encode(value))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+// How long identifier tokens are accepted unless issued with another lifetime
+const DEFAULT_IDENTIFIER_TOKEN_TTL_MS = 3600000;
+
+function signIdentifierToken(secret: string, identifier: string, expiresAt: string) {
+  return hmacHex(secret, `identifier:${identifier}:${expiresAt}`);
+}
+
+/**
+ * Issues a bearer token limited to one identifier, e.g. for handing to a browser that
+ * should only reach its own user's entries. The token carries its expiration, `ttlMs`
+ * after `now`, so a leaked token stops working. Verify it with `identifierTokenAuth`.
+ */
+export async function createIdentifierToken(
+  secret: string,
+  identifier: string,
+  ttlMs = DEFAULT_IDENTIFIER_TOKEN_TTL_MS,
+  now = Date.now(),
+): Promise<string> {
+  if (!Number.isFinite(ttlMs) || ttlMs <= 0) {
+    throw new Error(`ttlMs must be a positive number of milliseconds (got ${ttlMs})`);
+  }
+  const expiresAt = (now + ttlMs).toString();
+  const signature = await signIdentifierToken(secret, identifier, expiresAt);
+  return `${toBase64Url(identifier)}.${expiresAt}.${signature}`;
+}
+
+/**
+ * Splits `<identifier>.<expiresAt>.<signature>`; the base64url identifier, the
+ * timestamp and the hex signature never contain dots.
+ */
+function parseIdentifierToken(
+  token: string | null,
+): { identifier: string; expiresAt: string; signature: string } | null {
+  const parts = token?.split('.');
+  if (!parts || parts.length !== 3 || parts.some((part) => !part)) return null;
+  try {
+    return { identifier: fromBase64Url(parts[0]), expiresAt: parts[1], signature: parts[2] };
+  } catch {
+    return null;
+  }
+}
+
+/** Accepts tokens from `createIdentifierToken` until they expire. */
+export function identifierTokenAuth(
+  secret: string,
+  actions: ApiAction[] = ['read', 'write'],
+): Authenticator {
+  return async (request) => {
+    const parsed = parseIdentifierToken(getAuthorization(request, 'Bearer'));
+    if (!parsed) return null;
+    const { identifier, expiresAt, signature } = parsed;
+    const expiresAtTime = Number(expiresAt);
+    if (!Number.isFinite(expiresAtTime) || expiresAtTime <= Date.now()) return null;
+    const expected = await signIdentifierToken(secret, identifier, expiresAt);
+    return (await safeEqual(signature, expected))
+      ? { id: `identifier:${identifier}`, scopes: [{ identifier, actions }] }
+      : null;
+  };
+}
+
+/** Tries each authenticator in turn and returns the first principal found. */
+export function anyOf(...authenticators: Authenticator[]): Authenticator {
+  return async (request, env) => {
+    for (const authenticate of authenticators) {
+      const principal = await authenticate(request, env);
+      if (principal) return principal;
+    }
+    return null;
+  };
+}
+
+/**
+ * Default authenticator, configured from worker bindings: `CACHE_API_TOKEN` as a
+ * full-access bearer token, `CACHE_HMAC_SECRET` as the full-access HMAC key `default`,
+ * and `CACHE_IDENTIFIER_TOKEN_SECRET` for tokens from `createIdentifierToken`. Without
+ * any of them every request is rejected.
+ */
+export function envAuth(): Authenticator {
+  return async (request, env) => {
+    const authenticators: Authenticator[] = [];
+    if (env.CACHE_API_TOKEN) {
+      authenticators.push(
+        bearerAuth([{ id: 'api-token', secret: env.CACHE_API_TOKEN, scopes: FULL_ACCESS }]),
+      );
+    }
+    if (env.CACHE_HMAC_SECRET) {
+      authenticators.push(
+        hmacAuth([{ id: 'default', secret: env.CACHE_HMAC_SECRET, scopes: FULL_ACCESS }]),
+      );
+    }
+    if (env.CACHE_IDENTIFIER_TOKEN_SECRET) {
+      authenticators.push(identifierTokenAuth(env.CACHE_IDENTIFIER_TOKEN_SECRET));
+    }
+    return anyOf(...authenticators)(request, env);
+  };
+}
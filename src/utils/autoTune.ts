@@ -0,0 +1,207 @@
+import { CompressionConfig, GlobalConfig } from '../types';
+import { getCodec, hasCodec } from './codecs';
+import { CompressionSample } from './envelope';
+
+// Compression that saves less than 10% is not worth the CPU time or the decode on read
+const INCOMPRESSIBLE_RATIO = 0.9;
+// Average time per compression above which the level is lowered
+const SLOW_COMPRESSION_MS = 5;
+// Average time per compression below which a well-compressing store may use a higher level
+const FAST_COMPRESSION_MS = 0.5;
+const MIN_SAMPLES = 10;
+const MAX_HISTORY = 100;
+// Intervals a store stays uncompressed before its configured codec is tried again
+const PROBE_AFTER_INTERVALS = 4;
+
+export interface TuningDecision {
+  store: string;
+  timestamp: number;
+  previous: CompressionConfig;
+  next: CompressionConfig;
+  reason: string;
+  sampleCount: number;
+  /** Compressed size over input size across the samples. */
+  averageRatio: number;
+  averageDurationMs: number;
+}
+
+export interface TuningReport {
+  settings: Record<string, CompressionConfig>;
+  history: TuningDecision[];
+}
+
+interface StoreState {
+  configured: CompressionConfig;
+  current: CompressionConfig;
+  samples: CompressionSample[];
+  uncompressedIntervals: number;
+}
+
+function sameConfig(a: CompressionConfig, b: CompressionConfig): boolean {
+  return (
+    a.codec === b.codec && a.compressionLevel === b.compressionLevel && a.threshold === b.threshold
+  );
+}
+
+/**
+ * Adjusts each store's compression settings from the compressions it performs. Stores
+ * read their settings through `getSettings` and report every compression with `record`;
+ * once `autoTuneInterval` has passed, the next `getSettings` call re-tunes every store
+ * from its last `batchSize` samples.
+ */
+export class CompressionAutoTuner {
+  private stores = new Map<string, StoreState>();
+  private history: TuningDecision[] = [];
+  private lastTuned = Date.now();
+  private interval?: number;
+  private maxSamples = 100;
+
+  configure(globalConfig: Pick<GlobalConfig, 'autoTuneInterval' | 'batchSize'>): void {
+    this.interval = globalConfig.autoTuneInterval;
+    this.maxSamples = globalConfig.batchSize ?? this.maxSamples;
+  }
+
+  /**
+   * Returns the tuned settings for `store`. Tuning starts over from `configured`
+   * whenever the configured settings change.
+   */
+  getSettings(store: string, configured: CompressionConfig): CompressionConfig {
+    let state = this.stores.get(store);
+    if (!state || !sameConfig(state.configured, configured)) {
+      state = { configured, current: configured, samples: [], uncompressedIntervals: 0 };
+      this.stores.set(store, state);
+    }
+    if (this.interval && this.interval > 0 && Date.now() - this.lastTuned >= this.interval) {
+      this.tune();
+    }
+    return state.current;
+  }
+
+  record(store: string, sample: CompressionSample): void {
+    const state = this.stores.get(store);
+    if (!state) return;
+    state.samples.push(sample);
+    if (state.samples.length > this.maxSamples) {
+      state.samples.splice(0, state.samples.length - this.maxSamples);
+    }
+  }
+
+  /** Re-tunes every store now and returns the changes made. */
+  tune(): TuningDecision[] {
+    this.lastTuned = Date.now();
+    const decisions: TuningDecision[] = [];
+    this.stores.forEach((state, store) => {
+      const decision = this.decide(store, state);
+      if (decision) {
+        state.current = decision.next;
+        state.samples = [];
+        decisions.push(decision);
+      }
+    });
+    this.history.push(...decisions);
+    if (this.history.length > MAX_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_HISTORY);
+    }
+    return decisions;
+  }
+
+  getReport(): TuningReport {
+    const settings: Record<string, CompressionConfig> = {};
+    this.stores.forEach((state, store) => (settings[store] = state.current));
+    return { settings, history: [...this.history] };
+  }
+
+  getHistory(store?: string): TuningDecision[] {
+    return this.history.filter((decision) => store === undefined || decision.store === store);
+  }
+
+  /** Drops tuned settings, so stores go back to their configured compression. */
+  reset(store?: string): void {
+    if (store === undefined) {
+      this.stores.clear();
+      this.history = [];
+    } else {
+      this.stores.delete(store);
+      this.history = this.history.filter((decision) => decision.store !== store);
+    }
+  }
+
+  private decide(store: string, state: StoreState): TuningDecision | null {
+    const { current, configured, samples } = state;
+    const totalInput = samples.reduce((sum, sample) => sum + sample.inputBytes, 0);
+    const totalOutput = samples.reduce((sum, sample) => sum + sample.outputBytes, 0);
+    const totalDuration = samples.reduce((sum, sample) => sum + sample.durationMs, 0);
+    const ratio = totalInput > 0 ? totalOutput / totalInput : 1;
+    const averageDuration = samples.length > 0 ? totalDuration / samples.length : 0;
+    const change = (next: CompressionConfig, reason: string): TuningDecision => ({
+      store,
+      timestamp: Date.now(),
+      previous: current,
+      next,
+      reason,
+      sampleCount: samples.length,
+      averageRatio: ratio,
+      averageDurationMs: averageDuration,
+    });
+
+    if (current.codec === 'none') {
+      if (configured.codec === 'none') return null;
+      state.uncompressedIntervals++;
+      if (state.uncompressedIntervals < PROBE_AFTER_INTERVALS) return null;
+      state.uncompressedIntervals = 0;
+      return change(configured, 'checking whether payloads have become compressible');
+    }
+    if (samples.length < MIN_SAMPLES) return null;
+
+    if (ratio >= INCOMPRESSIBLE_RATIO) {
+      const worthwhile = samples.filter(
+        (sample) => sample.outputBytes < sample.inputBytes * INCOMPRESSIBLE_RATIO,
+      );
+      if (worthwhile.length === 0) {
+        return change({ ...current, codec: 'none' }, 'payloads are incompressible');
+      }
+      const threshold = Math.min(...worthwhile.map((sample) => sample.inputBytes));
+      if (threshold > current.threshold) {
+        return change(
+          { ...current, threshold },
+          'only payloads above the new threshold compress well',
+        );
+      }
+      return null;
+    }
+
+    const levels = hasCodec(current.codec) ? getCodec(current.codec).levels : undefined;
+    if (averageDuration > SLOW_COMPRESSION_MS) {
+      const level = current.compressionLevel < 0 ? levels?.default : current.compressionLevel;
+      if (levels && level !== undefined && level > levels.min) {
+        return change(
+          { ...current, compressionLevel: Math.max(levels.min, level - 2) },
+          'compression is slow',
+        );
+      }
+      if (current.codec !== 'lz4') {
+        return change(
+          { ...current, codec: 'lz4', compressionLevel: -1 },
+          'compression is slow at the lowest level',
+        );
+      }
+      return null;
+    }
+
+    if (averageDuration < FAST_COMPRESSION_MS && ratio < 0.5 && levels) {
+      const level = current.compressionLevel < 0 ? levels.default : current.compressionLevel;
+      if (level < levels.max) {
+        return change(
+          { ...current, compressionLevel: level + 1 },
+          'compression is fast enough for a higher level',
+        );
+      }
+    }
+    return null;
+  }
+}
+
+/** Tuner shared by the stores of this environment. */
+export const autoTuner = new CompressionAutoTuner();
+
+export default autoTuner;
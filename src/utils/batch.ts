@@ -0,0 +1,53 @@
+import { BatchKey, BatchResult } from '../types';
+
+function toBatchError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs `operation` for every item, `batchSize` items at a time, and reports each item's
+ * outcome separately instead of failing the whole batch. `afterChunk` runs once each
+ * chunk has settled.
+ */
+export async function runBatch<I extends BatchKey, R>(
+  items: I[],
+  batchSize: number,
+  operation: (item: I) => Promise<R>,
+  afterChunk?: () => Promise<void>,
+): Promise<BatchResult<R>[]> {
+  const results: BatchResult<R>[] = [];
+  const chunkSize = Math.max(1, batchSize);
+  for (let start = 0; start < items.length; start += chunkSize) {
+    const chunk = items.slice(start, start + chunkSize);
+    const settled = await Promise.allSettled(chunk.map((item) => operation(item)));
+    settled.forEach((outcome, index) => {
+      const { identifier, storeName } = chunk[index];
+      results.push(
+        outcome.status === 'fulfilled'
+          ? { identifier, storeName, ok: true, value: outcome.value }
+          : { identifier, storeName, ok: false, error: toBatchError(outcome.reason) },
+      );
+    });
+    await afterChunk?.();
+  }
+  return results;
+}
+
+/** Synchronous counterpart of `runBatch` for the browser stores. */
+export function mapBatch<I extends BatchKey, R>(
+  items: I[],
+  operation: (item: I) => R,
+): BatchResult<R>[] {
+  return items.map((item) => {
+    const { identifier, storeName } = item;
+    try {
+      return { identifier, storeName, ok: true, value: operation(item) };
+    } catch (error) {
+      return { identifier, storeName, ok: false, error: toBatchError(error) };
+    }
+  });
+}
+
+export function countFailures(results: BatchResult<unknown>[]): number {
+  return results.filter((result) => !result.ok).length;
+}
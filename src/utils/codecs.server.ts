@@ -0,0 +1,49 @@
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  constants,
+  deflateSync,
+  gzipSync,
+  gunzipSync,
+  inflateSync,
+} from 'zlib';
+import { CompressionCodec, registerCodec } from './codecs';
+
+function zlibLevel(level?: number): number {
+  return level === undefined || level < 0 ? constants.Z_DEFAULT_COMPRESSION : Math.min(level, 9);
+}
+
+export const gzipCodec: CompressionCodec = {
+  algorithm: 'gzip',
+  levels: { min: 1, max: 9, default: 6 },
+  compress: (data, level) => new Uint8Array(gzipSync(data, { level: zlibLevel(level) })),
+  decompress: (data) => new Uint8Array(gunzipSync(data)),
+};
+
+export const deflateCodec: CompressionCodec = {
+  algorithm: 'deflate',
+  levels: { min: 1, max: 9, default: 6 },
+  compress: (data, level) => new Uint8Array(deflateSync(data, { level: zlibLevel(level) })),
+  decompress: (data) => new Uint8Array(inflateSync(data)),
+};
+
+export const brotliCodec: CompressionCodec = {
+  algorithm: 'brotli',
+  levels: { min: 1, max: constants.BROTLI_MAX_QUALITY, default: constants.BROTLI_DEFAULT_QUALITY },
+  compress: (data, level) =>
+    new Uint8Array(
+      brotliCompressSync(data, {
+        params: {
+          [constants.BROTLI_PARAM_QUALITY]:
+            level === undefined || level < 0
+              ? constants.BROTLI_DEFAULT_QUALITY
+              : Math.min(level, constants.BROTLI_MAX_QUALITY),
+          [constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+        },
+      }),
+    ),
+  decompress: (data) => new Uint8Array(brotliDecompressSync(data)),
+};
+
+// Importing this module makes the zlib codecs available alongside lz4
+[gzipCodec, deflateCodec, brotliCodec].forEach(registerCodec);
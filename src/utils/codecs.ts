@@ -0,0 +1,53 @@
+import { compress, decompress } from 'lz4js';
+import { CompressionAlgorithm } from '../types';
+
+/**
+ * A compression codec. `level` follows the zlib convention: -1 selects the codec's
+ * default, higher values trade speed for size. Codecs without levels ignore it.
+ */
+export interface CompressionCodec {
+  algorithm: Exclude<CompressionAlgorithm, 'none'>;
+  /** Supported levels and the level -1 stands for; absent when the codec has none. */
+  levels?: { min: number; max: number; default: number };
+  compress(data: Uint8Array, level?: number): Uint8Array;
+  decompress(data: Uint8Array): Uint8Array;
+}
+
+export class UnknownCodecError extends Error {
+  constructor(public readonly algorithm: string) {
+    super(`Compression codec '${algorithm}' is not available in this environment`);
+    this.name = 'UnknownCodecError';
+  }
+}
+
+export const lz4Codec: CompressionCodec = {
+  algorithm: 'lz4',
+  compress: (data) => compress(data),
+  decompress: (data) => decompress(data),
+};
+
+const codecs = new Map<string, CompressionCodec>();
+
+/** Makes a codec available to every store; replaces any codec with the same name. */
+export function registerCodec(codec: CompressionCodec): void {
+  codecs.set(codec.algorithm, codec);
+}
+
+export function hasCodec(algorithm: string): boolean {
+  return codecs.has(algorithm);
+}
+
+export function getCodec(algorithm: string): CompressionCodec {
+  const codec = codecs.get(algorithm);
+  if (!codec) {
+    throw new UnknownCodecError(algorithm);
+  }
+  return codec;
+}
+
+export function listCodecs(): CompressionAlgorithm[] {
+  return Array.from(codecs.keys()) as CompressionAlgorithm[];
+}
+
+// lz4 is pure JavaScript, so it is the one codec every environment can read
+registerCodec(lz4Codec);
@@ -1,6 +1,7 @@
 'use client';
 import { compress, decompress } from 'lz4js';
-import { GlobalConfig } from '../types';
+import { CompressionConfig, GlobalConfig } from '../types';
+import { defaultCacheConfig } from './config';
 
 export const ClientCompressionModule = {
   globalConfig: {
@@ -11,6 +12,12 @@ export const ClientCompressionModule = {
     logLevel: 'debug',
     logDirectory: 'logs',
   } as GlobalConfig,
+  compression: defaultCacheConfig.session.compression,
+
+  initialize(compression: CompressionConfig, globalConfig: GlobalConfig): void {
+    this.compression = compression;
+    this.globalConfig = globalConfig;
+  },
 
   compressData<T>(data: T): { data: T; compressed: boolean } | null {
     if (data === null || data === undefined) {
@@ -18,9 +25,8 @@ export const ClientCompressionModule = {
     }
 
     const serializedData = JSON.stringify(data);
-    const COMPRESSION_THRESHOLD = 100; // characters
 
-    if (serializedData.length < COMPRESSION_THRESHOLD) {
+    if (serializedData.length < this.compression.threshold) {
       return { data, compressed: false };
     }
 
@@ -1,7 +1,8 @@
 'use server';
 import { gzip, gunzip } from 'zlib';
 import { promisify } from 'util';
-import { GlobalConfig } from '../types';
+import { CompressionConfig, GlobalConfig } from '../types';
+import { defaultCacheConfig } from './config';
 import { ServerLogger } from 'goobs-testing';
 
 const gzipAsync = promisify(gzip);
@@ -16,6 +17,12 @@ export const ServerCompressionModule = {
     logLevel: 'debug',
     logDirectory: 'logs',
   } as GlobalConfig,
+  compression: defaultCacheConfig.serverless.compression,
+
+  initialize(compression: CompressionConfig, globalConfig: GlobalConfig): void {
+    this.compression = compression;
+    this.globalConfig = globalConfig;
+  },
 
   async compressData<T>(data: T): Promise<{ data: T; compressed: boolean }> {
     await ServerLogger.info('Starting data compression', {
@@ -30,14 +37,12 @@ export const ServerCompressionModule = {
         bufferLength: inputBuffer.length,
       });
 
-      const COMPRESSION_THRESHOLD = 100; // bytes
-
-      if (inputBuffer.length < COMPRESSION_THRESHOLD) {
+      if (inputBuffer.length < this.compression.threshold) {
         return { data, compressed: false };
       }
 
       const startTime = process.hrtime();
-      const compressionLevel = -1;
+      const compressionLevel = this.compression.compressionLevel;
       const compressedData = await gzipAsync(inputBuffer, { level: compressionLevel });
       const endTime = process.hrtime(startTime);
       const compressionTime = (endTime[0] * 1e9 + endTime[1]) / 1e6;
@@ -0,0 +1,34 @@
+'use server';
+
+import { access } from 'fs/promises';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { ServerLogger } from 'goobs-testing';
+import { CacheConfig } from '../types';
+import { validateCacheConfig } from './config';
+
+export const CACHE_CONFIG_FILENAME = '.cache.config.ts';
+
+/**
+ * Loads `.cache.config.ts` from the project root (or the given path), validates it and
+ * merges it over the defaults. Falls back to the defaults when the file does not exist.
+ * The file is loaded with a dynamic import, so the runtime must be able to import TypeScript.
+ */
+export async function loadCacheConfig(
+  configPath: string = join(process.cwd(), CACHE_CONFIG_FILENAME),
+): Promise<CacheConfig> {
+  try {
+    await access(configPath);
+  } catch {
+    await ServerLogger.info('No cache config file found, using defaults', { configPath });
+    return validateCacheConfig(undefined);
+  }
+
+  const configModule = await import(/* webpackIgnore: true */ pathToFileURL(configPath).href);
+  const config = validateCacheConfig(configModule.default ?? configModule);
+
+  await ServerLogger.info('Cache config loaded', { configPath });
+  return config;
+}
+
+export default loadCacheConfig;
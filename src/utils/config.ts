@@ -0,0 +1,234 @@
+import { CacheConfig, PartialCacheConfig } from '../types';
+
+const defaultEncryptionConfig = {
+  algorithm: 'aes-256-gcm',
+  keyCheckIntervalMs: 86400000,
+  keyRotationIntervalMs: 7776000000,
+};
+
+export const defaultCacheConfig: CacheConfig = {
+  serverless: {
+    cacheSize: 10000,
+    cacheMaxAge: 3600000,
+    persistenceInterval: 600000,
+    maxMemoryUsage: 1073741824,
+    evictionPolicy: 'lru',
+    memoryCacheSize: 1000,
+    memoryCacheMaxAge: 60000,
+    prefetchThreshold: 0.9,
+    forceReset: false,
+    compression: {
+      codec: 'gzip',
+      compressionLevel: -1,
+      threshold: 1024,
+    },
+    encryption: { ...defaultEncryptionConfig },
+  },
+  session: {
+    cacheSize: 5000,
+    cacheMaxAge: 1800000,
+    evictionPolicy: 'lru',
+    compression: {
+      codec: 'lz4',
+      compressionLevel: -1,
+      threshold: 100,
+    },
+    encryption: { ...defaultEncryptionConfig },
+  },
+  cookie: {
+    cacheSize: 5000,
+    cacheMaxAge: 1800000,
+    maxCookieSize: 4096,
+    maxCookiesPerDomain: 50,
+    evictionPolicy: 'lru',
+    compression: {
+      codec: 'lz4',
+      compressionLevel: -1,
+      threshold: 100,
+    },
+    encryption: { ...defaultEncryptionConfig },
+  },
+  global: {
+    keySize: 256,
+    batchSize: 100,
+    autoTuneInterval: 3600000,
+    loggingEnabled: true,
+    logLevel: 'debug',
+    logDirectory: 'logs',
+  },
+};
+
+type FieldSpec =
+  | 'number'
+  | 'boolean'
+  | 'string'
+  | 'string?'
+  | readonly string[]
+  | ListSpec
+  | SectionSpec;
+
+interface SectionSpec {
+  [field: string]: FieldSpec;
+}
+
+/** An optional array whose items all match `listOf`. */
+interface ListSpec {
+  listOf: SectionSpec;
+}
+
+function isListSpec(spec: FieldSpec): spec is ListSpec {
+  return typeof spec === 'object' && !Array.isArray(spec) && 'listOf' in spec;
+}
+
+const evictionPolicies = ['lru', 'lfu', 'ttl'] as const;
+const logLevels = ['error', 'warn', 'info', 'http', 'verbose', 'debug'] as const;
+const compressionCodecs = ['none', 'lz4', 'gzip', 'deflate', 'brotli'] as const;
+
+const compressionSpec: SectionSpec = {
+  codec: compressionCodecs,
+  compressionLevel: 'number',
+  threshold: 'number',
+};
+
+const encryptionSpec: SectionSpec = {
+  algorithm: 'string',
+  encryptionPassword: 'string?',
+  keyId: 'string?',
+  previousKeys: { listOf: { keyId: 'string', encryptionPassword: 'string' } },
+  keyCheckIntervalMs: 'number',
+  keyRotationIntervalMs: 'number',
+};
+
+const sessionSpec: SectionSpec = {
+  cacheSize: 'number',
+  cacheMaxAge: 'number',
+  evictionPolicy: evictionPolicies,
+  compression: compressionSpec,
+  encryption: encryptionSpec,
+};
+
+const cacheConfigSpec: SectionSpec = {
+  serverless: {
+    ...sessionSpec,
+    persistenceInterval: 'number',
+    maxMemoryUsage: 'number',
+    memoryCacheSize: 'number',
+    memoryCacheMaxAge: 'number',
+    prefetchThreshold: 'number',
+    forceReset: 'boolean',
+  },
+  session: sessionSpec,
+  cookie: {
+    ...sessionSpec,
+    maxCookieSize: 'number',
+    maxCookiesPerDomain: 'number',
+  },
+  global: {
+    keySize: 'number',
+    batchSize: 'number',
+    autoTuneInterval: 'number',
+    loggingEnabled: 'boolean',
+    logLevel: logLevels,
+    logDirectory: 'string',
+  },
+};
+
+export class CacheConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid cache configuration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'CacheConfigError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function collectIssues(value: unknown, spec: FieldSpec, path: string, issues: string[]): void {
+  if (Array.isArray(spec)) {
+    if (typeof value !== 'string' || !spec.includes(value)) {
+      issues.push(`${path} must be one of ${spec.map((s) => `'${s}'`).join(', ')}`);
+    }
+    return;
+  }
+
+  if (isListSpec(spec)) {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      issues.push(`${path} must be an array (got ${describe(value)})`);
+      return;
+    }
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      collectIssues(item, spec.listOf, itemPath, issues);
+      // Unlike sections, list items are not merged over defaults, so every field is required
+      if (isPlainObject(item)) {
+        Object.keys(spec.listOf)
+          .filter((field) => item[field] === undefined)
+          .forEach((field) => issues.push(`${itemPath}.${field} is required`));
+      }
+    });
+    return;
+  }
+
+  if (typeof spec === 'string') {
+    if (spec === 'string?') {
+      if (value !== undefined && typeof value !== 'string') {
+        issues.push(`${path} must be a string (got ${describe(value)})`);
+      }
+    } else if (typeof value !== spec || (spec === 'number' && Number.isNaN(value))) {
+      issues.push(`${path} must be a ${spec} (got ${describe(value)})`);
+    }
+    return;
+  }
+
+  if (!isPlainObject(value)) {
+    issues.push(`${path || 'configuration'} must be an object (got ${describe(value)})`);
+    return;
+  }
+
+  for (const field of Object.keys(value)) {
+    const fieldPath = path ? `${path}.${field}` : field;
+    const fieldSpec = (spec as SectionSpec)[field];
+    if (fieldSpec === undefined) {
+      issues.push(`${fieldPath} is not a recognized configuration field`);
+    } else {
+      collectIssues(value[field], fieldSpec, fieldPath, issues);
+    }
+  }
+}
+
+function mergeDeep<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [field, value] of Object.entries(override)) {
+    merged[field] = mergeDeep(merged[field], value);
+  }
+  return merged as T;
+}
+
+/**
+ * Validates a user supplied cache configuration and merges it over the defaults.
+ * Throws a CacheConfigError listing every unknown or mistyped field.
+ */
+export function validateCacheConfig(config: unknown): CacheConfig {
+  if (config === undefined || config === null) {
+    return mergeDeep(defaultCacheConfig, {});
+  }
+
+  const issues: string[] = [];
+  collectIssues(config, cacheConfigSpec, '', issues);
+  if (issues.length > 0) {
+    throw new CacheConfigError(issues);
+  }
+
+  return mergeDeep(defaultCacheConfig, config as PartialCacheConfig);
+}
@@ -1,43 +1,29 @@
 'use client';
 
 import { ClientLogger } from 'goobs-testing';
-import { ClientEncryptionModule, EncryptedData } from 'goobs-encryption';
-import { ClientCompressionModule as ClientCompressionModuleImport } from './compression.client';
-import { GlobalConfig } from '../types';
+import { ClientEncryptionModule } from 'goobs-encryption';
+import { autoTuner } from './autoTune';
+import { ClientCompressionModule } from './compression.client';
+import { CookieConfig, GlobalConfig } from '../types';
+import { defaultCacheConfig } from './config';
 import HitCountModule from './hitCount.client';
 import ClientLastDateModule from './lastDate.client';
+import { CookieCodec } from './cookieCodec';
+import { Keyring, KeyringOptions } from './keyring';
+import {
+  CookieBudgetError,
+  deleteChunkedCookie,
+  parseCookieHeader,
+  readChunkedCookie,
+  writeChunkedCookie,
+} from './cookieChunks';
 
-// Extend the ClientCompressionModule type with an initialize method
-const ClientCompressionModule: typeof ClientCompressionModuleImport & {
-  initialize: (compression: { compressionLevel: number }, globalConfig: GlobalConfig) => void;
-} = {
-  ...ClientCompressionModuleImport,
-  initialize: () => {}, // Add a no-op initialize method if it doesn't exist
-};
-
-interface SessionConfig {
-  cacheSize: number;
-  cacheMaxAge: number;
-  compression: {
-    compressionLevel: number;
-  };
-}
+export { CookieBudgetError };
 
-const defaultSessionConfig: SessionConfig = {
-  cacheSize: 5000,
-  cacheMaxAge: 1800000,
-  compression: {
-    compressionLevel: -1,
-  },
-};
+const defaultCookieConfig: CookieConfig = defaultCacheConfig.cookie;
 
 const defaultGlobalConfig: GlobalConfig = {
-  keySize: 256,
-  batchSize: 100,
-  autoTuneInterval: 3600000,
-  loggingEnabled: true,
-  logLevel: 'debug',
-  logDirectory: 'logs',
+  ...defaultCacheConfig.global,
   initialize: (config: Partial<GlobalConfig>) => {
     Object.assign(defaultGlobalConfig, config);
   },
@@ -45,73 +31,57 @@ const defaultGlobalConfig: GlobalConfig = {
 
 export const CookieUtils = {
   globalConfig: defaultGlobalConfig,
-  sessionConfig: defaultSessionConfig,
-  encryptionPassword: undefined as string | undefined,
+  cookieConfig: defaultCookieConfig,
+  keyring: new Keyring(),
 
-  initialize(encryptionPassword?: string): void {
+  initialize(encryptionPassword?: string, keyringOptions: KeyringOptions = {}): void {
     ClientLogger.debug('Initializing CookieUtils');
-    this.encryptionPassword = encryptionPassword;
+    if (encryptionPassword) {
+      this.keyring.addKey(encryptionPassword, keyringOptions.keyId);
+    }
+    keyringOptions.previousKeys?.forEach((key) => this.keyring.addPreviousKey(key));
 
     ClientLogger.debug('Initializing loggers', { globalConfig: this.globalConfig });
     this.globalConfig.initialize(this.globalConfig);
     ClientLogger.initializeLogger(this.globalConfig);
 
-    if (this.encryptionPassword) {
-      ClientLogger.debug('Initializing encryption module');
-      ClientEncryptionModule.initialize(this.encryptionPassword, this.globalConfig);
+    if (this.keyring.currentKey) {
+      ClientLogger.debug('Initializing encryption module', {
+        keyId: this.keyring.currentKey.keyId,
+        previousKeys: this.keyring.previousKeys.length,
+      });
+      ClientEncryptionModule.initialize(
+        this.keyring.currentKey.encryptionPassword,
+        this.globalConfig,
+      );
     } else {
       ClientLogger.debug('Encryption disabled: No encryption password provided');
     }
 
-    ClientCompressionModule.initialize(this.sessionConfig.compression, this.globalConfig);
+    ClientCompressionModule.initialize(this.cookieConfig.compression, this.globalConfig);
+    autoTuner.configure(this.globalConfig);
 
     ClientLogger.debug('CookieUtils initialized successfully');
   },
 
+  readDocumentCookies(): Array<[string, string]> {
+    return parseCookieHeader(document.cookie);
+  },
+
   getCookie<T>(name: string): T | undefined {
     ClientLogger.debug('Getting cookie', { name });
-    const cookieValue = document.cookie
-      .split('; ')
-      .find((row) => row.startsWith(`${name}=`))
-      ?.split('=')[1];
+    const cookies = this.readDocumentCookies();
+    const cookieValue = readChunkedCookie(cookies, name);
+    if (cookieValue === undefined && cookies.some(([cookieName]) => cookieName === name)) {
+      ClientLogger.warn('Cookie chunk missing, treating cookie as not found', { name });
+    }
 
     if (cookieValue) {
       ClientLogger.debug('Cookie found', { name, cookieValueLength: cookieValue.length });
       try {
-        ClientLogger.debug('Parsing cookie value', { name });
-        let parsedValue = JSON.parse(decodeURIComponent(cookieValue));
-        ClientLogger.debug('Cookie value parsed successfully', {
-          name,
-          parsedValueType: typeof parsedValue,
-        });
-
-        if (this.encryptionPassword) {
-          ClientLogger.debug('Decrypting cookie value', { name });
-          let decrypted: T | null = null;
-          ClientEncryptionModule.decrypt<T>(parsedValue, (result) => {
-            decrypted = result;
-          });
-          if (decrypted) {
-            parsedValue = decrypted;
-          } else {
-            ClientLogger.warn('Decryption failed, using parsed (potentially unencrypted) value', {
-              name,
-            });
-            return undefined;
-          }
-        }
-
-        ClientLogger.debug('Decompressing cookie value', { name });
-        const decompressed = ClientCompressionModule.decompressData(parsedValue);
-        if (decompressed === null) {
-          ClientLogger.warn('Decompression failed', { name });
-          return undefined;
-        }
-
-        ClientLogger.debug('Cookie value decompressed successfully', {
-          name,
-          decompressedLength: decompressed.length,
-        });
+        const decoded = CookieCodec.decode<T>(name, cookieValue, this.keyring);
+        if (decoded === undefined) return undefined;
+        const result = decoded.value;
 
         ClientLogger.debug('Incrementing get hit count', { name });
         HitCountModule.incrementGetHitCount(
@@ -128,7 +98,6 @@ export const CookieUtils = {
           'cookie',
         );
 
-        const result = JSON.parse(decompressed as string) as T;
         ClientLogger.debug('Cookie retrieved successfully', {
           name,
           resultType: typeof result,
@@ -163,61 +132,40 @@ export const CookieUtils = {
       options,
     });
 
-    const stringValue = JSON.stringify(value);
-    ClientLogger.debug('Value stringified', { name, stringLength: stringValue.length });
-
-    ClientLogger.debug('Compressing cookie value', { name });
-    const compressed = ClientCompressionModule.compressData(stringValue);
-
-    if (compressed === null) {
-      ClientLogger.error('Compression failed', { name });
-      return;
-    }
-
-    ClientLogger.debug('Compression result', {
+    const cookieValue = CookieCodec.encode(
       name,
-      compressed: compressed.compressed,
-      originalLength: stringValue.length,
-      compressedLength: compressed.data.length,
-    });
-
-    let cookieValue: string;
-    if (this.encryptionPassword) {
-      ClientLogger.debug('Encrypting compressed cookie value', { name });
-      let encrypted: EncryptedData<typeof compressed.data> | null = null;
-      ClientEncryptionModule.encrypt<typeof compressed.data>(compressed.data, (result) => {
-        encrypted = result;
-      });
-      if (encrypted) {
-        cookieValue = encodeURIComponent(JSON.stringify(encrypted));
-        ClientLogger.debug('Encryption successful', { name, encryptedLength: cookieValue.length });
-      } else {
-        ClientLogger.error('Encryption failed', { name });
-        return;
-      }
-    } else {
-      cookieValue = encodeURIComponent(compressed.data.toString());
-      ClientLogger.debug('Storing unencrypted compressed value', {
-        name,
-        valueLength: cookieValue.length,
-      });
-    }
-
-    let cookieString = `${name}=${cookieValue}`;
-
-    if (options.expires) cookieString += `; expires=${options.expires.toUTCString()}`;
-    if (options.maxAge) cookieString += `; max-age=${options.maxAge}`;
-    if (options.domain) cookieString += `; domain=${options.domain}`;
-    if (options.path) cookieString += `; path=${options.path}`;
-    if (options.secure) cookieString += '; secure';
-    if (options.httpOnly) cookieString += '; httponly';
-    if (options.sameSite) cookieString += `; samesite=${options.sameSite}`;
-
-    ClientLogger.debug('Setting document.cookie', {
+      value,
+      this.keyring,
+      this.cookieConfig.compression,
+    );
+    if (cookieValue === undefined) return;
+
+    let attributes = '';
+
+    if (options.expires) attributes += `; expires=${options.expires.toUTCString()}`;
+    if (options.maxAge) attributes += `; max-age=${options.maxAge}`;
+    if (options.domain) attributes += `; domain=${options.domain}`;
+    if (options.path) attributes += `; path=${options.path}`;
+    if (options.secure) attributes += '; secure';
+    if (options.httpOnly) attributes += '; httponly';
+    if (options.sameSite) attributes += `; samesite=${options.sameSite}`;
+
+    const written = writeChunkedCookie(
+      {
+        getAll: () => this.readDocumentCookies(),
+        write: (cookieName, chunkValue) => {
+          document.cookie = `${cookieName}=${chunkValue}${attributes}`;
+        },
+        expire: (cookieName) => this.expireCookie(cookieName),
+      },
+      name,
+      cookieValue,
+      this.cookieConfig,
+    );
+    ClientLogger.debug('Cookie written to document.cookie', {
       name,
-      cookieStringLength: cookieString.length,
+      chunks: written > 1 ? written - 1 : 0,
     });
-    document.cookie = cookieString;
 
     ClientLogger.debug('Incrementing set hit count', { name });
     HitCountModule.incrementSetHitCount(
@@ -236,9 +184,20 @@ export const CookieUtils = {
     ClientLogger.debug(`Cookie ${name} set successfully`);
   },
 
+  expireCookie(name: string): void {
+    document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;`;
+  },
+
   deleteCookie(name: string): void {
     ClientLogger.debug(`Deleting cookie ${name}`);
-    document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;`;
+    deleteChunkedCookie(
+      {
+        getAll: () => this.readDocumentCookies(),
+        write: () => {},
+        expire: (cookieName) => this.expireCookie(cookieName),
+      },
+      name,
+    );
     ClientLogger.debug(`Cookie ${name} deleted`);
   },
 
@@ -262,24 +221,28 @@ export const CookieUtils = {
   },
 
   updateConfig(
-    newSessionConfig?: Partial<SessionConfig>,
+    newCookieConfig?: Partial<CookieConfig>,
     newGlobalConfig?: Partial<GlobalConfig>,
     newEncryptionPassword?: string,
   ): void {
     ClientLogger.debug('Updating configuration');
-    if (newSessionConfig) {
-      this.sessionConfig = { ...this.sessionConfig, ...newSessionConfig };
-      ClientLogger.debug('Session config updated', { newConfig: newSessionConfig });
+    if (newCookieConfig) {
+      this.cookieConfig = { ...this.cookieConfig, ...newCookieConfig };
+      ClientLogger.debug('Cookie config updated', { newConfig: newCookieConfig });
     }
     if (newGlobalConfig) {
       this.globalConfig.initialize(newGlobalConfig);
       ClientLogger.debug('Global config updated', { newConfig: newGlobalConfig });
     }
-    if (newEncryptionPassword !== undefined) {
-      this.encryptionPassword = newEncryptionPassword;
-      ClientLogger.debug('Encryption password updated', { passwordSet: !!newEncryptionPassword });
+    if (newEncryptionPassword === '') {
+      this.keyring.clear();
+      ClientLogger.debug('Encryption disabled');
+    } else if (newEncryptionPassword !== undefined) {
+      // The old key stays in the keyring so existing cookies remain readable
+      const key = this.keyring.addKey(newEncryptionPassword);
+      ClientLogger.debug('Encryption key rotated', { keyId: key.keyId });
     }
-    this.initialize(this.encryptionPassword);
+    this.initialize();
     ClientLogger.debug('Configuration updated and modules reinitialized');
   },
 };
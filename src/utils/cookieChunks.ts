@@ -0,0 +1,201 @@
+const CHUNK_MANIFEST_PREFIX = 'chunks:';
+const CHUNK_NAME_PATTERN = /^(.+)\.(\d+)$/;
+
+// Browsers cap cookie lifetimes at 400 days, so longer expirations are tracked in the
+// cache result while the cookie itself is refreshed on access
+export const MAX_COOKIE_LIFETIME = 400 * 24 * 60 * 60 * 1000;
+
+export class CookieBudgetError extends Error {
+  constructor(
+    public readonly cookieName: string,
+    public readonly requiredCookies: number,
+    public readonly requiredBytes: number,
+    public readonly maxCookies: number,
+    public readonly maxBytes: number,
+  ) {
+    super(
+      `Cookie ${cookieName} does not fit in the per-domain cookie budget ` +
+        `(${requiredCookies}/${maxCookies} cookies, ${requiredBytes}/${maxBytes} bytes)`,
+    );
+    this.name = 'CookieBudgetError';
+  }
+}
+
+export interface CookieBudget {
+  maxCookieSize: number;
+  maxCookiesPerDomain: number;
+}
+
+export interface CookieChunkStore {
+  /** Every cookie currently visible, as raw name/value pairs. */
+  getAll(): Array<[string, string]>;
+  write(name: string, value: string): void;
+  expire(name: string): void;
+}
+
+/** Parses a `document.cookie` string or `Cookie` header into raw name/value pairs. */
+export function parseCookieHeader(header: string | null | undefined): Array<[string, string]> {
+  if (!header) return [];
+  return header
+    .split(';')
+    .map((row) => row.trim())
+    .filter((row) => row.length > 0)
+    .map((row) => {
+      const separatorIndex = row.indexOf('=');
+      return separatorIndex === -1
+        ? [row, '']
+        : [row.slice(0, separatorIndex), row.slice(separatorIndex + 1)];
+    });
+}
+
+export function getChunkName(name: string, index: number): string {
+  return `${name}.${index}`;
+}
+
+/** Returns the cookie name a chunk belongs to, or undefined for regular cookies. */
+export function getChunkOwner(cookieName: string): string | undefined {
+  return CHUNK_NAME_PATTERN.exec(cookieName)?.[1];
+}
+
+/** Returns the number of chunks a manifest value points to, or undefined for plain values. */
+export function parseChunkManifest(value: string): number | undefined {
+  // Frameworks such as Next.js URI-encode the ':' of manifests they write
+  const decoded = value.replace(/%3A/gi, ':');
+  if (!decoded.startsWith(CHUNK_MANIFEST_PREFIX)) return undefined;
+  const count = parseInt(decoded.slice(CHUNK_MANIFEST_PREFIX.length), 10);
+  return Number.isNaN(count) ? undefined : count;
+}
+
+/**
+ * Splits an encoded cookie value into `name=value` pairs that each fit within
+ * `maxCookieSize`. Values that fit are returned as a single pair; larger ones become
+ * numbered chunk cookies plus a manifest stored under the original name.
+ */
+export function splitCookieValue(
+  name: string,
+  value: string,
+  maxCookieSize: number,
+): Array<[string, string]> {
+  if (name.length + 1 + value.length <= maxCookieSize) {
+    return [[name, value]];
+  }
+
+  const chunks: Array<[string, string]> = [];
+  let offset = 0;
+  while (offset < value.length) {
+    const chunkName = getChunkName(name, chunks.length);
+    const chunkSize = maxCookieSize - chunkName.length - 1;
+    if (chunkSize <= 0) {
+      throw new Error(`maxCookieSize ${maxCookieSize} is too small to hold cookie ${name}`);
+    }
+    let end = offset + chunkSize;
+    // Never split a %XX escape across chunks, so each chunk can be decoded on its own
+    if (value[end - 1] === '%') end -= 1;
+    else if (value[end - 2] === '%') end -= 2;
+    chunks.push([chunkName, value.slice(offset, end)]);
+    offset = end;
+  }
+
+  return [[name, `${CHUNK_MANIFEST_PREFIX}${chunks.length}`], ...chunks];
+}
+
+/**
+ * Reassembles a value from a manifest and its chunks. Returns undefined when a chunk
+ * is missing, e.g. because the browser dropped it.
+ */
+export function joinCookieValue(
+  name: string,
+  value: string,
+  readCookie: (name: string) => string | undefined,
+): string | undefined {
+  const chunkCount = parseChunkManifest(value);
+  if (chunkCount === undefined) return value;
+
+  let joined = '';
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = readCookie(getChunkName(name, index));
+    if (chunk === undefined) return undefined;
+    joined += chunk;
+  }
+  return joined;
+}
+
+/**
+ * Throws a CookieBudgetError when writing `pairs` next to the other cookies already set
+ * for the domain would exceed the cookie count or total size the browser allows.
+ */
+export function assertWithinCookieBudget(
+  name: string,
+  pairs: Array<[string, string]>,
+  otherCookies: Array<[string, string]>,
+  budget: CookieBudget,
+): void {
+  const size = (cookies: Array<[string, string]>) =>
+    cookies.reduce((total, [cookieName, value]) => total + cookieName.length + 1 + value.length, 0);
+
+  const requiredCookies = otherCookies.length + pairs.length;
+  const requiredBytes = size(otherCookies) + size(pairs);
+  const maxBytes = budget.maxCookiesPerDomain * budget.maxCookieSize;
+
+  if (requiredCookies > budget.maxCookiesPerDomain || requiredBytes > maxBytes) {
+    throw new CookieBudgetError(
+      name,
+      requiredCookies,
+      requiredBytes,
+      budget.maxCookiesPerDomain,
+      maxBytes,
+    );
+  }
+}
+
+function isOwnCookie(name: string, cookieName: string): boolean {
+  return cookieName === name || getChunkOwner(cookieName) === name;
+}
+
+/** Reads a cookie from raw name/value pairs, joining its chunks if it was split. */
+export function readChunkedCookie(
+  cookies: Array<[string, string]>,
+  name: string,
+): string | undefined {
+  const lookup = new Map(cookies);
+  const rawValue = lookup.get(name);
+  if (rawValue === undefined) return undefined;
+  return joinCookieValue(name, rawValue, (chunkName) => lookup.get(chunkName));
+}
+
+/**
+ * Writes a cookie, splitting it into chunks when needed and expiring chunks left over
+ * from a previous, larger value. Returns the number of cookies written.
+ */
+export function writeChunkedCookie(
+  store: CookieChunkStore,
+  name: string,
+  value: string,
+  budget: CookieBudget,
+): number {
+  const pairs = splitCookieValue(name, value, budget.maxCookieSize);
+  const existingCookies = store.getAll();
+  assertWithinCookieBudget(
+    name,
+    pairs,
+    existingCookies.filter(([cookieName]) => !isOwnCookie(name, cookieName)),
+    budget,
+  );
+
+  const newNames = new Set(pairs.map(([cookieName]) => cookieName));
+  existingCookies
+    .filter(([cookieName]) => isOwnCookie(name, cookieName) && !newNames.has(cookieName))
+    .forEach(([cookieName]) => store.expire(cookieName));
+
+  pairs.forEach(([cookieName, cookieValue]) => store.write(cookieName, cookieValue));
+  return pairs.length;
+}
+
+/** Expires a cookie together with all of its chunks. */
+export function deleteChunkedCookie(store: CookieChunkStore, name: string): void {
+  store.expire(name);
+  store
+    .getAll()
+    .filter(([cookieName]) => getChunkOwner(cookieName) === name)
+    .forEach(([cookieName]) => store.expire(cookieName));
+}
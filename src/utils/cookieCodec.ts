@@ -0,0 +1,115 @@
+import { ClientLogger } from 'goobs-testing';
+import { CompressionConfig } from '../types';
+import { autoTuner } from './autoTune';
+import { cacheEvents } from './events';
+import { ClientCompressionModule } from './compression.client';
+import { defaultCacheConfig } from './config';
+import {
+  ValueEnvelope,
+  createEnvelope,
+  decryptEnvelope,
+  encryptEnvelope,
+  isValueEnvelope,
+  readEnvelope,
+} from './envelope';
+import { DecryptionResult, Keyring, VersionedEncryptedData } from './keyring';
+
+/**
+ * Cookie value pipeline shared by the browser and server cookie modules, so a value
+ * written on one side can be read on the other.
+ */
+export const CookieCodec = {
+  encode<T>(
+    name: string,
+    value: T,
+    keyring?: Keyring,
+    compression: CompressionConfig = defaultCacheConfig.cookie.compression,
+  ): string | undefined {
+    const settings = autoTuner.getSettings('cookie', compression);
+    const envelope = createEnvelope(value, settings, (sample) => {
+      autoTuner.record('cookie', sample);
+      cacheEvents.emit('compress', {
+        source: 'cookie',
+        key: name,
+        codec: settings.codec,
+        ...sample,
+      });
+    });
+    ClientLogger.debug('Value wrapped in envelope', {
+      name,
+      type: envelope.type,
+      algorithm: envelope.alg,
+      payloadLength: envelope.data.length,
+    });
+
+    let sealed: ValueEnvelope = envelope;
+    if (keyring?.enabled) {
+      ClientLogger.debug('Encrypting cookie value', { name });
+      try {
+        sealed = encryptEnvelope(envelope, keyring);
+      } catch (error) {
+        ClientLogger.error('Encryption failed', { name, error });
+        return undefined;
+      }
+    }
+
+    const cookieValue = encodeURIComponent(JSON.stringify(sealed));
+    ClientLogger.debug('Cookie value encoded', { name, valueLength: cookieValue.length });
+    return cookieValue;
+  },
+
+  /** Decodes a cookie value; `stale` is set when it should be rewritten in the current format. */
+  decode<T>(name: string, cookieValue: string, keyring?: Keyring): DecryptionResult<T> | undefined {
+    ClientLogger.debug('Parsing cookie value', { name });
+    const parsedValue = JSON.parse(decodeURIComponent(cookieValue));
+
+    if (!isValueEnvelope(parsedValue)) {
+      const value = this.decodeLegacy<T>(name, parsedValue, keyring);
+      return value === undefined ? undefined : { value, stale: true };
+    }
+
+    if (parsedValue.enc && !keyring?.enabled) {
+      ClientLogger.warn('Cookie value is encrypted but no encryption key is configured', { name });
+      return undefined;
+    }
+
+    let opened: DecryptionResult<ValueEnvelope> = { value: parsedValue, stale: false };
+    if (keyring) {
+      try {
+        opened = decryptEnvelope(parsedValue, keyring);
+      } catch (error) {
+        ClientLogger.warn('Decryption failed', { name, error });
+        cacheEvents.emit('decrypt-failure', { source: 'cookie', key: name });
+        return undefined;
+      }
+    }
+
+    const { value: envelope, stale } = opened;
+    const value = readEnvelope<T>(envelope);
+    ClientLogger.debug('Cookie value decoded successfully', { name, type: envelope.type });
+    return { value, stale };
+  },
+
+  /** Reads values written before the envelope format: JSON, then encryption, then lz4. */
+  decodeLegacy<T>(name: string, parsedValue: unknown, keyring?: Keyring): T | undefined {
+    if (keyring?.enabled) {
+      ClientLogger.debug('Decrypting legacy cookie value', { name });
+      try {
+        parsedValue = keyring.decrypt<T>(parsedValue as VersionedEncryptedData<T>).value;
+      } catch (error) {
+        ClientLogger.warn('Decryption failed', { name, error });
+        cacheEvents.emit('decrypt-failure', { source: 'cookie', key: name });
+        return undefined;
+      }
+    }
+
+    const decompressed = ClientCompressionModule.decompressData(parsedValue);
+    if (decompressed === null) {
+      ClientLogger.warn('Decompression failed', { name });
+      return undefined;
+    }
+    return JSON.parse(decompressed as string) as T;
+  },
+};
+
+export default CookieCodec;
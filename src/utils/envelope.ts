@@ -0,0 +1,241 @@
+import { EncryptedData } from 'goobs-encryption';
+import { CompressionAlgorithm, CompressionConfig } from '../types';
+import { getCodec } from './codecs';
+import type { DecryptionResult, Keyring, VersionedEncryptedData } from './keyring';
+
+export const ENVELOPE_VERSION = 1;
+
+/** How the original value is rebuilt from the payload bytes. */
+export type EnvelopeValueType = 'json' | 'string' | 'binary' | 'undefined';
+
+/**
+ * Storage format shared by every store. The payload is always base64, so it survives
+ * JSON, cookies and UTF-8 text storage unchanged, and the tags describe how to turn it
+ * back into the original value.
+ */
+export interface ValueEnvelope {
+  v: typeof ENVELOPE_VERSION;
+  /** Codec the payload was compressed with; `'none'` when it was stored as is. */
+  alg: CompressionAlgorithm;
+  enc: boolean;
+  type: EnvelopeValueType;
+  data: string;
+  /** Encryption parameters, present when `enc` is true. */
+  keyId?: string;
+  iv?: string;
+  salt?: string;
+  authTag?: string;
+}
+
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvelopeError';
+  }
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  }
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+export function fromBase64(base64: string): Uint8Array {
+  if (typeof Buffer !== 'undefined') {
+    return new Uint8Array(Buffer.from(base64, 'base64'));
+  }
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+export function isValueEnvelope(value: unknown): value is ValueEnvelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as ValueEnvelope).v === ENVELOPE_VERSION &&
+    typeof (value as ValueEnvelope).alg === 'string' &&
+    typeof (value as ValueEnvelope).data === 'string'
+  );
+}
+
+function serialize(value: unknown): { type: EnvelopeValueType; bytes: Uint8Array } {
+  if (value === undefined) {
+    return { type: 'undefined', bytes: new Uint8Array(0) };
+  }
+  if (value instanceof Uint8Array) {
+    return { type: 'binary', bytes: value };
+  }
+  if (value instanceof ArrayBuffer) {
+    return { type: 'binary', bytes: new Uint8Array(value) };
+  }
+  if (typeof value === 'string') {
+    return { type: 'string', bytes: new TextEncoder().encode(value) };
+  }
+  return { type: 'json', bytes: new TextEncoder().encode(JSON.stringify(value)) };
+}
+
+function deserialize<T>(type: EnvelopeValueType, bytes: Uint8Array): T {
+  switch (type) {
+    case 'undefined':
+      return undefined as T;
+    case 'binary':
+      return bytes as unknown as T;
+    case 'string':
+      return new TextDecoder().decode(bytes) as unknown as T;
+    case 'json':
+      return JSON.parse(new TextDecoder().decode(bytes)) as T;
+    default:
+      throw new EnvelopeError(`Unknown envelope value type: ${type}`);
+  }
+}
+
+/** Outcome of one compression attempt, reported to `createEnvelope` observers. */
+export interface CompressionSample {
+  inputBytes: number;
+  outputBytes: number;
+  durationMs: number;
+}
+
+/**
+ * Wraps a value in an unencrypted envelope, compressing payloads of at least
+ * `compression.threshold` bytes with `compression.codec` when that makes them smaller.
+ * `onCompress` is called after every compression attempt, kept or not.
+ */
+export function createEnvelope(
+  value: unknown,
+  compression?: Partial<CompressionConfig>,
+  onCompress?: (sample: CompressionSample) => void,
+): ValueEnvelope {
+  const { type, bytes } = serialize(value);
+  let alg: CompressionAlgorithm = 'none';
+  let payload = bytes;
+
+  const algorithm = compression?.codec ?? 'none';
+  if (algorithm !== 'none' && bytes.length > 0 && bytes.length >= (compression?.threshold ?? 0)) {
+    const startTime = performance.now();
+    const compressed = getCodec(algorithm).compress(bytes, compression?.compressionLevel);
+    onCompress?.({
+      inputBytes: bytes.length,
+      outputBytes: compressed.length,
+      durationMs: performance.now() - startTime,
+    });
+    if (compressed.length < bytes.length) {
+      alg = algorithm;
+      payload = compressed;
+    }
+  }
+
+  return { v: ENVELOPE_VERSION, alg, enc: false, type, data: toBase64(payload) };
+}
+
+/**
+ * Restores the value of an unencrypted envelope with the codec it names, throwing an
+ * UnknownCodecError when that codec is not registered in this environment.
+ */
+export function readEnvelope<T>(envelope: ValueEnvelope): T {
+  if (envelope.enc) {
+    throw new EnvelopeError('Envelope is encrypted; decrypt it before reading');
+  }
+
+  let bytes = fromBase64(envelope.data);
+  if (envelope.alg !== 'none') {
+    bytes = getCodec(envelope.alg).decompress(bytes);
+  }
+  return deserialize<T>(envelope.type, bytes);
+}
+
+/**
+ * goobs-encryption types the ciphertext as the type of the value it encrypted, but
+ * produces bytes; this checks that it did.
+ */
+function getCiphertext({ encryptedValue }: EncryptedData<unknown>): Uint8Array {
+  if (!(encryptedValue instanceof Uint8Array)) {
+    throw new EnvelopeError('Encryption did not produce binary ciphertext');
+  }
+  return encryptedValue;
+}
+
+/** Replaces the payload with its encryption, which covers the base64 payload string. */
+export function sealEnvelope(
+  envelope: ValueEnvelope,
+  encrypted: VersionedEncryptedData<unknown>,
+): ValueEnvelope {
+  const { iv, salt, authTag } = encrypted.data;
+  return {
+    ...envelope,
+    enc: true,
+    data: toBase64(getCiphertext(encrypted.data)),
+    keyId: encrypted.keyId,
+    iv: toBase64(iv),
+    salt: toBase64(salt),
+    authTag: toBase64(authTag),
+  };
+}
+
+/** Returns the ciphertext and parameters of a sealed envelope, as goobs-encryption takes them. */
+export function getEncryptedData(envelope: ValueEnvelope): VersionedEncryptedData<Buffer> {
+  if (!envelope.enc || !envelope.keyId || !envelope.iv || !envelope.salt || !envelope.authTag) {
+    throw new EnvelopeError('Envelope is not encrypted');
+  }
+  // goobs-encryption works on Buffers in every environment, so Buffer is available here
+  const toBuffer = (base64: string) => Buffer.from(base64, 'base64');
+  const data: EncryptedData<Buffer> = {
+    encryptedValue: toBuffer(envelope.data),
+    iv: toBuffer(envelope.iv),
+    salt: toBuffer(envelope.salt),
+    authTag: toBuffer(envelope.authTag),
+  };
+  return { keyId: envelope.keyId, data };
+}
+
+/** Puts the decrypted payload back, turning a sealed envelope into a readable one. */
+export function openEnvelope(envelope: ValueEnvelope, payload: string): ValueEnvelope {
+  return { v: envelope.v, alg: envelope.alg, enc: false, type: envelope.type, data: payload };
+}
+
+/**
+ * True when an envelope should be rewritten: it was sealed under a previous key, or it
+ * is unencrypted although the keyring now holds a key.
+ */
+export function isEnvelopeStale(envelope: ValueEnvelope, keyring: Keyring): boolean {
+  return keyring.enabled && (!envelope.enc || envelope.keyId !== keyring.currentKey?.keyId);
+}
+
+export async function encryptEnvelopeAsync(
+  envelope: ValueEnvelope,
+  keyring: Keyring,
+): Promise<ValueEnvelope> {
+  if (!keyring.enabled) return envelope;
+  return sealEnvelope(envelope, await keyring.encryptAsync(envelope.data));
+}
+
+export async function decryptEnvelopeAsync(
+  envelope: ValueEnvelope,
+  keyring: Keyring,
+): Promise<DecryptionResult<ValueEnvelope>> {
+  if (!envelope.enc) {
+    return { value: envelope, stale: isEnvelopeStale(envelope, keyring) };
+  }
+  const { value, stale } = await keyring.decryptAsync<string>(getEncryptedData(envelope));
+  return { value: openEnvelope(envelope, value), stale };
+}
+
+/** Seals an envelope under the keyring's current key; see `Keyring.encrypt`. */
+export function encryptEnvelope(envelope: ValueEnvelope, keyring: Keyring): ValueEnvelope {
+  if (!keyring.enabled) return envelope;
+  return sealEnvelope(envelope, keyring.encrypt(envelope.data));
+}
+
+/** Opens a sealed envelope; see `Keyring.decrypt`. Unencrypted envelopes are returned as is. */
+export function decryptEnvelope(
+  envelope: ValueEnvelope,
+  keyring: Keyring,
+): DecryptionResult<ValueEnvelope> {
+  if (!envelope.enc) {
+    return { value: envelope, stale: isEnvelopeStale(envelope, keyring) };
+  }
+  const { value, stale } = keyring.decrypt<string>(getEncryptedData(envelope));
+  return { value: openEnvelope(envelope, value), stale };
+}
@@ -0,0 +1,152 @@
+import { CompressionAlgorithm } from '../types';
+import { CompressionSample } from './envelope';
+import { CacheCounts, countEvent, emptyCounts } from './stats';
+
+export type CacheEventSource = 'serverless' | 'cookie' | 'session';
+
+export interface CacheEventBase {
+  source: CacheEventSource;
+  /** Storage key: `identifier:storeName` in R2 and session storage, the cookie name for cookies. */
+  key: string;
+  timestamp: number;
+}
+
+/** Base of the events about one entry of a store. */
+export interface CacheEntryEvent extends CacheEventBase {
+  identifier: string;
+  storeName: string;
+}
+
+export interface CacheEventMap {
+  hit: CacheEntryEvent & {
+    durationMs: number;
+    /** Stored size in characters, when the entry was read from storage. */
+    size?: number;
+    fromMemory: boolean;
+    /** Set for entries past their fresh lifetime that were served anyway. */
+    stale: boolean;
+  };
+  miss: CacheEntryEvent & { durationMs: number };
+  set: CacheEntryEvent & { durationMs: number; size: number };
+  remove: CacheEntryEvent & { durationMs: number };
+  expire: CacheEntryEvent;
+  evict: CacheEntryEvent & { policy: string; size: number };
+  compress: CacheEventBase & CompressionSample & { codec: CompressionAlgorithm };
+  'decrypt-failure': CacheEventBase & { error?: unknown };
+  error: Omit<CacheEventBase, 'key'> & { key?: string; operation: string; error: unknown };
+}
+
+export type CacheEventName = keyof CacheEventMap;
+
+/** What a store passes to `emit`; the timestamp is added by the emitter. */
+export type CacheEventInit<E extends CacheEventName> = Omit<CacheEventMap[E], 'timestamp'>;
+
+/** Source and key fields shared by the events about one entry. */
+export type CacheEntryEventInit = Omit<CacheEntryEvent, 'timestamp'>;
+
+export type CacheEventListener<E extends CacheEventName> = (event: CacheEventMap[E]) => void;
+
+export type AnyCacheEventListener = <E extends CacheEventName>(
+  name: E,
+  event: CacheEventMap[E],
+) => void;
+
+/**
+ * Typed event bus the stores report their operations to. Listeners run synchronously
+ * inside the cache call, so they should hand work off rather than block; an exception
+ * thrown by a listener is rethrown asynchronously instead of failing the operation.
+ * Events are also counted per source, listeners or not, for the stores' `stats()`.
+ */
+export class CacheEventEmitter {
+  private listeners = new Map<CacheEventName, Set<CacheEventListener<CacheEventName>>>();
+  private anyListeners = new Set<AnyCacheEventListener>();
+  private counts = new Map<CacheEventSource, { counts: CacheCounts; since: number }>();
+
+  /** Subscribes to one event and returns a function that unsubscribes again. */
+  on<E extends CacheEventName>(name: E, listener: CacheEventListener<E>): () => void {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener as CacheEventListener<CacheEventName>);
+    return () => this.off(name, listener);
+  }
+
+  once<E extends CacheEventName>(name: E, listener: CacheEventListener<E>): () => void {
+    const unsubscribe = this.on(name, (event) => {
+      unsubscribe();
+      listener(event);
+    });
+    return unsubscribe;
+  }
+
+  off<E extends CacheEventName>(name: E, listener: CacheEventListener<E>): void {
+    this.listeners.get(name)?.delete(listener as CacheEventListener<CacheEventName>);
+  }
+
+  /** Subscribes to every event, e.g. to forward them all to a telemetry pipeline. */
+  onAny(listener: AnyCacheEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  removeAllListeners(name?: CacheEventName): void {
+    if (name === undefined) {
+      this.listeners.clear();
+      this.anyListeners.clear();
+    } else {
+      this.listeners.delete(name);
+    }
+  }
+
+  listenerCount(name: CacheEventName): number {
+    return (this.listeners.get(name)?.size ?? 0) + this.anyListeners.size;
+  }
+
+  /** Totals of the events `source` has emitted since counting started, at `since`. */
+  getCounts(source: CacheEventSource): { counts: CacheCounts; since: number } {
+    const current = this.counts.get(source);
+    return current
+      ? { counts: { ...current.counts }, since: current.since }
+      : { counts: emptyCounts(), since: Date.now() };
+  }
+
+  /** Returns the totals of `source` and starts counting again from zero. */
+  takeCounts(source: CacheEventSource): CacheCounts {
+    const { counts } = this.getCounts(source);
+    this.counts.delete(source);
+    return counts;
+  }
+
+  emit<E extends CacheEventName>(name: E, init: CacheEventInit<E>): void {
+    let current = this.counts.get(init.source);
+    if (!current) {
+      current = { counts: emptyCounts(), since: Date.now() };
+      this.counts.set(init.source, current);
+    }
+    countEvent(current.counts, name, init);
+
+    const listeners = this.listeners.get(name);
+    if (!listeners?.size && this.anyListeners.size === 0) return;
+
+    const event = { ...init, timestamp: Date.now() } as CacheEventMap[E];
+    listeners?.forEach((listener) => this.deliver(() => listener(event)));
+    this.anyListeners.forEach((listener) => this.deliver(() => listener(name, event)));
+  }
+
+  private deliver(call: () => void): void {
+    try {
+      call();
+    } catch (error) {
+      setTimeout(() => {
+        throw error;
+      });
+    }
+  }
+}
+
+/** Event bus shared by the stores of this environment. */
+export const cacheEvents = new CacheEventEmitter();
+
+export default cacheEvents;
@@ -0,0 +1,81 @@
+import { EvictionPolicy } from '../types';
+
+export interface EvictionCandidate {
+  key: string;
+  size: number;
+  hitCount: number;
+  lastAccessedDate: number;
+  expirationDate: number;
+}
+
+export interface EvictionLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface EvictionStrategy {
+  readonly name: EvictionPolicy;
+  /** Returns a negative number when `a` should be evicted before `b`. */
+  compare(a: EvictionCandidate, b: EvictionCandidate): number;
+}
+
+const lruStrategy: EvictionStrategy = {
+  name: 'lru',
+  compare: (a, b) => a.lastAccessedDate - b.lastAccessedDate,
+};
+
+const lfuStrategy: EvictionStrategy = {
+  name: 'lfu',
+  compare: (a, b) => a.hitCount - b.hitCount || a.lastAccessedDate - b.lastAccessedDate,
+};
+
+const ttlStrategy: EvictionStrategy = {
+  name: 'ttl',
+  compare: (a, b) => a.expirationDate - b.expirationDate,
+};
+
+const evictionStrategies: Record<EvictionPolicy, EvictionStrategy> = {
+  lru: lruStrategy,
+  lfu: lfuStrategy,
+  ttl: ttlStrategy,
+};
+
+export function getEvictionStrategy(policy: EvictionPolicy): EvictionStrategy {
+  const strategy = evictionStrategies[policy];
+  if (!strategy) {
+    throw new Error(`Unknown eviction policy: ${policy}`);
+  }
+  return strategy;
+}
+
+/**
+ * Picks the entries to delete so that the remaining ones fit within both limits.
+ * Expired entries always go first, the rest are ordered by the strategy.
+ */
+export function selectEvictionVictims(
+  candidates: EvictionCandidate[],
+  strategy: EvictionStrategy,
+  limits: EvictionLimits,
+  now: number = Date.now(),
+): EvictionCandidate[] {
+  let remainingEntries = candidates.length;
+  let remainingBytes = candidates.reduce((total, candidate) => total + candidate.size, 0);
+
+  const ordered = [...candidates].sort((a, b) => {
+    const aExpired = a.expirationDate <= now;
+    const bExpired = b.expirationDate <= now;
+    if (aExpired !== bExpired) return aExpired ? -1 : 1;
+    return strategy.compare(a, b);
+  });
+
+  const victims: EvictionCandidate[] = [];
+  for (const candidate of ordered) {
+    const overLimit = remainingEntries > limits.maxEntries || remainingBytes > limits.maxBytes;
+    if (!overLimit && candidate.expirationDate > now) break;
+
+    victims.push(candidate);
+    remainingEntries--;
+    remainingBytes -= candidate.size;
+  }
+  return victims;
+}
@@ -0,0 +1,86 @@
+import { ExpirationOptions, GetOrSetOptions } from '../types';
+
+/** Largest timestamp a Date can hold; used as the expiration of entries that never expire. */
+export const NO_EXPIRY = 8640000000000000;
+
+export interface ResolvedExpiration {
+  expirationDate: number;
+  slidingTtl?: number;
+}
+
+export function getExpirationKey(identifier: string, storeName: string): string {
+  return `${identifier}:${storeName}:expiration`;
+}
+
+/**
+ * Turns per-call expiration options into an absolute expiration date. Falls back to
+ * `defaultMaxAge` when no option is given.
+ */
+export function resolveExpiration(
+  options: ExpirationOptions = {},
+  defaultMaxAge: number,
+  now: number = Date.now(),
+): ResolvedExpiration {
+  const { ttl, expiresAt, slidingExpiration, noExpiry } = options;
+
+  const specified = [ttl !== undefined, expiresAt !== undefined, !!noExpiry].filter(Boolean);
+  if (specified.length > 1) {
+    throw new Error('Only one of ttl, expiresAt or noExpiry can be specified');
+  }
+  if (ttl !== undefined && (!Number.isFinite(ttl) || ttl <= 0)) {
+    throw new Error(`ttl must be a positive number of milliseconds (got ${ttl})`);
+  }
+
+  if (noExpiry) {
+    return { expirationDate: NO_EXPIRY };
+  }
+
+  const expirationDate =
+    expiresAt !== undefined ? new Date(expiresAt).getTime() : now + (ttl ?? defaultMaxAge);
+  if (Number.isNaN(expirationDate)) {
+    throw new Error(`expiresAt is not a valid date (got ${String(expiresAt)})`);
+  }
+
+  if (slidingExpiration) {
+    return { expirationDate, slidingTtl: Math.max(expirationDate - now, 0) };
+  }
+  return { expirationDate };
+}
+
+/** Returns the expiration date after a read, extended for sliding entries. */
+export function slideExpiration(
+  expiration: ResolvedExpiration,
+  now: number = Date.now(),
+): ResolvedExpiration {
+  if (!expiration.slidingTtl) {
+    return expiration;
+  }
+  return { ...expiration, expirationDate: now + expiration.slidingTtl };
+}
+
+/**
+ * Resolves the expiration of a `getOrSet` write. The entry is fresh for its lifetime and
+ * then kept for the longer of the two stale windows, with `freshUntil` marking the switch.
+ */
+export function resolveStaleExpiration(
+  options: GetOrSetOptions = {},
+  defaultMaxAge: number,
+  now: number = Date.now(),
+): ResolvedExpiration & { freshUntil?: number } {
+  const { staleWhileRevalidate = 0, staleIfError = 0, ttl, expiresAt, noExpiry } = options;
+  Object.entries({ staleWhileRevalidate, staleIfError }).forEach(([name, window]) => {
+    if (!Number.isFinite(window) || window < 0) {
+      throw new Error(`${name} must be a non-negative number of milliseconds (got ${window})`);
+    }
+  });
+
+  const { expirationDate } = resolveExpiration({ ttl, expiresAt, noExpiry }, defaultMaxAge, now);
+  const staleWindow = Math.max(staleWhileRevalidate, staleIfError);
+  if (staleWindow === 0 || expirationDate >= NO_EXPIRY) {
+    return { expirationDate };
+  }
+  return {
+    expirationDate: Math.min(expirationDate + staleWindow, NO_EXPIRY),
+    freshUntil: expirationDate,
+  };
+}
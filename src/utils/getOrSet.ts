@@ -0,0 +1,71 @@
+import { GetOrSetOptions } from '../types';
+
+/** A cached value as seen by `getOrRefresh`. */
+export interface StaleEntry<T> {
+  value: T;
+  /** When the value went stale; undefined while it is fresh. */
+  staleSince?: number;
+}
+
+/** Returns when an entry with this `freshUntil` went stale, or undefined while it is fresh. */
+export function getStaleSince(
+  freshUntil: Date | string | number | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (freshUntil === undefined) return undefined;
+  const time = new Date(freshUntil).getTime();
+  return time < now ? time : undefined;
+}
+
+/** Runs one task per key at a time; callers arriving while it runs share its result. */
+export class SingleFlight {
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) return running as Promise<T>;
+
+    const promise = Promise.resolve()
+      .then(task)
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
+
+/**
+ * The `getOrSet` flow shared by the stores. Fresh values are returned as they are. Stale
+ * values within `staleWhileRevalidate` are returned while `refresh` runs in the
+ * background, and stale values within `staleIfError` stand in when `refresh` fails.
+ * Anything else waits for `refresh`.
+ */
+export async function getOrRefresh<T>(
+  cached: StaleEntry<T> | undefined,
+  refresh: () => Promise<T>,
+  { staleWhileRevalidate = 0, staleIfError = 0, waitUntil }: GetOrSetOptions,
+  warn: (message: string, error: unknown) => unknown,
+): Promise<T> {
+  if (cached && cached.staleSince === undefined) {
+    return cached.value;
+  }
+
+  const staleFor = cached ? Date.now() - cached.staleSince! : Infinity;
+  if (cached && staleFor < staleWhileRevalidate) {
+    const revalidation = refresh().then(
+      () => undefined,
+      (error) => warn('Background refresh failed', error),
+    );
+    waitUntil?.(revalidation);
+    return cached.value;
+  }
+
+  try {
+    return await refresh();
+  } catch (error) {
+    if (cached && staleFor < staleIfError) {
+      await warn('Loader failed, serving the stale value', error);
+      return cached.value;
+    }
+    throw error;
+  }
+}
@@ -1,45 +1,111 @@
 'use client';
 
-import { useAtom as jotaiUseAtom } from 'jotai';
+import { WritableAtom, getDefaultStore, useAtom as jotaiUseAtom } from 'jotai';
 import { atomWithStorage } from 'jotai/utils';
 import { ClientLogger } from 'goobs-testing';
-import { GlobalConfig } from '../types';
-import { ClientCompressionModule as ClientCompressionModuleImport } from './compression.client';
-import { ClientEncryptionModule, EncryptedData } from 'goobs-encryption';
+import {
+  AtomSchema,
+  BatchKey,
+  BatchResult,
+  BatchSetItem,
+  CacheKeyStats,
+  CacheStats,
+  CacheStatsOptions,
+  DehydratedEntry,
+  ExpirationOptions,
+  GlobalConfig,
+  SessionConfig,
+} from '../types';
+import { mapBatch } from './batch';
+import { defaultCacheConfig } from './config';
+import {
+  NO_EXPIRY,
+  getExpirationKey,
+  resolveExpiration,
+  slideExpiration,
+  ResolvedExpiration,
+} from './expiration';
+import { autoTuner } from './autoTune';
+import { ClientCompressionModule } from './compression.client';
+import {
+  ValueEnvelope,
+  createEnvelope,
+  decryptEnvelope,
+  encryptEnvelope,
+  isValueEnvelope,
+  readEnvelope,
+} from './envelope';
+import { ClientEncryptionModule } from 'goobs-encryption';
+import { DecryptionResult, Keyring, KeyringOptions, VersionedEncryptedData } from './keyring';
+import { getQuarantineKey, getSchemaVersionKey, migrateValue, validateValue } from './schema';
+import { CacheEntryEventInit, cacheEvents } from './events';
+import { buildStats, summarizeEntries } from './stats';
 import HitCountModule from './hitCount.client';
 import ClientLastDateModule from './lastDate.client';
+import { TabSyncMessage, tabSync } from './tabSync.client';
+import {
+  StorageBackend,
+  StorageBackendName,
+  isQuotaExceededError,
+  resolveStorageBackend,
+} from './storageBackend.client';
+import { EvictionCandidate, getEvictionStrategy, selectEvictionVictims } from './eviction';
 
-// Extend the ClientCompressionModule type with an initialize method
-const ClientCompressionModule: typeof ClientCompressionModuleImport & {
-  initialize: (compression: { compressionLevel: number }, globalConfig: GlobalConfig) => void;
-} = {
-  ...ClientCompressionModuleImport,
-  initialize: () => {}, // Add a no-op initialize method if it doesn't exist
-};
+export interface JotaiAtomOptions<Value = unknown> extends ExpirationOptions {
+  identifier?: string;
+  storeName?: string;
+  /** Validates values on write and migrates or discards stored values on read. */
+  schema?: AtomSchema<Value>;
+  /** Shares writes with other tabs of the origin and updates the atom on theirs. */
+  sync?: boolean;
+  /** Where the atom is stored; defaults to the module's backend, session storage unless set. */
+  storage?: StorageBackend | StorageBackendName;
+}
 
-interface SessionConfig {
-  cacheSize: number;
-  cacheMaxAge: number;
-  compression: {
-    compressionLevel: number;
-  };
+interface StoredAtom {
+  identifier: string;
+  storeName: string;
+  schema?: AtomSchema<unknown>;
+  backend: StorageBackend;
 }
 
-const defaultSessionConfig: SessionConfig = {
-  cacheSize: 5000,
-  cacheMaxAge: 1800000,
-  compression: {
-    compressionLevel: -1,
+/** Atom as hydration sees it: one that can be set to any value. */
+export type HydratableAtom = WritableAtom<unknown, [unknown], void>;
+
+// Atoms created for each entry, which hydration sets to the server's values. They are held
+// weakly, so the atoms of components a page no longer renders can be collected.
+const hydratableAtoms = new Map<string, Set<WeakRef<HydratableAtom>>>();
+const hydratableAtomOptions = new WeakMap<HydratableAtom, StoredAtom>();
+const collectedAtoms = new FinalizationRegistry<{ key: string; ref: WeakRef<HydratableAtom> }>(
+  ({ key, ref }) => {
+    const refs = hydratableAtoms.get(key);
+    refs?.delete(ref);
+    if (refs?.size === 0) hydratableAtoms.delete(key);
   },
-};
+);
+
+/** Expiration options that keep a server entry's expiration date. */
+function toExpirationOptions(expirationDate: number | undefined): ExpirationOptions {
+  if (expirationDate === undefined) return {};
+  return expirationDate >= NO_EXPIRY ? { noExpiry: true } : { expiresAt: expirationDate };
+}
+
+// Keys generated by earlier versions from Math.random(), plus their bookkeeping keys
+const LEGACY_ATOM_KEY_PATTERN = /^(atom-[0-9a-z]{1,9})(:atom:[A-Za-z]+)?$/;
+
+function getSessionStorageKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < sessionStorage.length; i++) {
+    const key = sessionStorage.key(i);
+    if (key !== null) keys.push(key);
+  }
+  return keys;
+}
+
+const defaultSessionConfig: SessionConfig = defaultCacheConfig.session;
 
 const defaultGlobalConfig: GlobalConfig = {
-  keySize: 256,
-  batchSize: 100,
-  autoTuneInterval: 3600000,
-  loggingEnabled: true,
-  logLevel: 'debug',
-  logDirectory: 'logs',
+  ...defaultCacheConfig.global,
   initialize: (config: Partial<GlobalConfig>) => {
     Object.assign(defaultGlobalConfig, config);
   },
@@ -48,82 +114,93 @@ const defaultGlobalConfig: GlobalConfig = {
 const JotaiClientModule = {
   globalConfig: defaultGlobalConfig,
   sessionConfig: defaultSessionConfig,
-  encryptionPassword: undefined as string | undefined,
+  keyring: new Keyring(),
   itemNotFoundCache: new Set<string>(),
+  storage: resolveStorageBackend('session'),
+  // Backends whose `ready` promise has resolved
+  readyBackends: new WeakSet<StorageBackend>(),
+  writesSinceEviction: new WeakMap<StorageBackend, number>(),
+  // Backends whose asynchronous write failures are handled by `retryFailedWrite`
+  watchedBackends: new WeakSet<StorageBackend>(),
+  syncedAtoms: new Map<string, StoredAtom>(),
+  syncListeners: new Map<string, Set<(value: unknown) => void>>(),
+  stopSync: undefined as (() => void) | undefined,
+  // Expiration dates of the entries whose atoms hydration is setting
+  hydratingExpirations: new Map<string, number>(),
 
-  initialize(encryptionPassword?: string): void {
+  initialize(encryptionPassword?: string, keyringOptions: KeyringOptions = {}): void {
     ClientLogger.debug('Initializing JotaiClientModule');
-    this.encryptionPassword = encryptionPassword;
+    if (encryptionPassword) {
+      this.keyring.addKey(encryptionPassword, keyringOptions.keyId);
+    }
+    keyringOptions.previousKeys?.forEach((key) => this.keyring.addPreviousKey(key));
 
     ClientLogger.debug('Initializing loggers', { globalConfig: this.globalConfig });
     this.globalConfig.initialize(this.globalConfig);
     ClientLogger.initializeLogger(this.globalConfig);
 
-    if (this.encryptionPassword) {
-      ClientLogger.debug('Initializing encryption module');
-      ClientEncryptionModule.initialize(this.encryptionPassword, this.globalConfig);
+    if (this.keyring.currentKey) {
+      ClientLogger.debug('Initializing encryption module', {
+        keyId: this.keyring.currentKey.keyId,
+        previousKeys: this.keyring.previousKeys.length,
+      });
+      ClientEncryptionModule.initialize(
+        this.keyring.currentKey.encryptionPassword,
+        this.globalConfig,
+      );
     } else {
       ClientLogger.debug('Encryption disabled: No encryption password provided');
     }
 
     ClientCompressionModule.initialize(this.sessionConfig.compression, this.globalConfig);
+    autoTuner.configure(this.globalConfig);
 
     ClientLogger.debug('JotaiClientModule initialized successfully');
   },
 
-  atom<Value>(initialValue: Value) {
-    const key = `atom-${Math.random().toString(36).substr(2, 9)}`;
+  atom<Value>(initialValue: Value, options: JotaiAtomOptions<Value> = {}) {
+    const { identifier, storeName, schema, sync, storage, ...expirationOptions } = options;
 
-    return atomWithStorage<Value>(key, initialValue, {
-      getItem: (key, initialValue) => {
-        const item = sessionStorage.getItem(key);
-        if (item !== null) {
-          try {
-            ClientLogger.debug('Parsing stored item', { key });
-            let parsedItem = JSON.parse(item);
-
-            if (this.encryptionPassword) {
-              ClientLogger.debug('Decrypting item', { key });
-              let decrypted: Value | null = null;
-              ClientEncryptionModule.decrypt<Value>(parsedItem, (result) => {
-                decrypted = result;
-              });
-              if (decrypted) {
-                parsedItem = decrypted;
-              } else {
-                ClientLogger.warn(
-                  'Decryption failed, using parsed (potentially unencrypted) value',
-                  { key },
-                );
-                return initialValue;
-              }
-            }
+    if (!identifier || !storeName) {
+      ClientLogger.warn(
+        'Atom created without an identifier and storeName; its value is kept in memory only',
+      );
+      return atomWithStorage<Value>('', initialValue, {
+        getItem: (_key, initialValue) => initialValue,
+        setItem: () => {},
+        removeItem: () => {},
+      });
+    }
 
-            ClientLogger.debug('Decompressing item', { key });
-            const decompressed = ClientCompressionModule.decompressData(parsedItem);
-            if (decompressed === null) {
-              ClientLogger.warn('Decompression failed, using initial value', { key });
-              return initialValue;
-            }
+    if (Object.keys(expirationOptions).length > 0) {
+      // Validate the options up front rather than on the first write
+      resolveExpiration(expirationOptions, this.sessionConfig.cacheMaxAge);
+    }
 
-            let result: Value;
-            if (typeof decompressed === 'string') {
-              result = JSON.parse(decompressed);
-            } else if (decompressed instanceof Uint8Array) {
-              // If decompressed is a Uint8Array, convert it to a string
-              const decoder = new TextDecoder();
-              result = JSON.parse(decoder.decode(decompressed));
-            } else {
-              // If decompressed is neither string nor Uint8Array, assume it's already the correct type
-              result = decompressed as Value;
-            }
+    const key = `${identifier}:${storeName}`;
+    const backend = storage === undefined ? this.storage : resolveStorageBackend(storage);
+    const stored: StoredAtom = {
+      identifier,
+      storeName,
+      schema: schema as AtomSchema<unknown>,
+      backend,
+    };
+    backend.ready?.then(() => this.readyBackends.add(backend));
+    if (sync) {
+      this.enableSync(stored);
+    }
 
-            ClientLogger.debug('Successfully retrieved and processed item', { key, result });
+    const created = atomWithStorage<Value>(key, initialValue, {
+      getItem: (key, initialValue) => {
+        try {
+          const result = this.loadItem<Value>(identifier, storeName, schema, backend);
+          if (result !== undefined) {
             return result;
-          } catch (error) {
-            ClientLogger.error(`Failed to parse stored value for key ${key}`, { error });
-            return initialValue;
           }
+        } catch (error) {
+          ClientLogger.error(`Failed to parse stored value for key ${key}`, { error });
+          cacheEvents.emit('error', { source: 'session', key, operation: 'get', error });
+          return initialValue;
         }
 
         if (!this.itemNotFoundCache) {
@@ -134,77 +211,812 @@ const JotaiClientModule = {
         }
         return initialValue;
       },
-      setItem: (key, value) => {
-        const stringValue = JSON.stringify(value);
+      setItem: (_key, value) => {
+        // Hydration sets atoms while rendering on the server, where there is no storage
+        if (typeof window === 'undefined') return;
+        const checked = schema ? validateValue(schema, value) : value;
+        const hydratedExpiration = this.hydratingExpirations.get(key);
+        const options =
+          hydratedExpiration === undefined
+            ? expirationOptions
+            : toExpirationOptions(hydratedExpiration);
+        if (this.saveItem(identifier, storeName, checked, options, schema, backend)) {
+          if (sync) this.publishItem(identifier, storeName, backend);
+        }
+      },
+      removeItem: () => {
+        this.deleteItem(identifier, storeName, backend);
+        if (sync) {
+          tabSync.publish({
+            source: 'session',
+            key,
+            action: 'remove',
+            lastUpdatedDate: Date.now(),
+          });
+        }
+      },
+      subscribe:
+        sync || backend.ready
+          ? (_key, callback, initialValue) =>
+              this.watchItem(stored, sync, (value) =>
+                callback(value === undefined ? initialValue : (value as Value)),
+              )
+          : undefined,
+    });
+    let refs = hydratableAtoms.get(key);
+    if (!refs) {
+      refs = new Set();
+      hydratableAtoms.set(key, refs);
+    }
+    const ref = new WeakRef(created as HydratableAtom);
+    refs.add(ref);
+    hydratableAtomOptions.set(created as HydratableAtom, stored);
+    collectedAtoms.register(created, { key, ref });
+    return created;
+  },
 
-        const compressionResult = ClientCompressionModule.compressData(stringValue);
+  /** Returns the atoms created for `identifier:storeName` that are still in use. */
+  getAtoms(identifier: string, storeName: string): HydratableAtom[] {
+    return [...(hydratableAtoms.get(`${identifier}:${storeName}`) ?? [])].flatMap(
+      (ref) => ref.deref() ?? [],
+    );
+  },
+
+  /**
+   * Sets the atoms of an entry to a value read on the server, which they store as if it
+   * had been written on the client but with the server's expiration date. Atoms with a
+   * schema migrate the value from the server's schema version. An entry without atoms yet
+   * is stored in the module's backend, with its schema version, for the atoms created
+   * later. Entries that have expired since they were read are skipped, and so are the
+   * backends that hold a value written since the server's, as cookies do.
+   */
+  hydrateItem(entry: DehydratedEntry, store = getDefaultStore()): void {
+    const { identifier, storeName, value, expirationDate, schemaVersion } = entry;
+    const key = `${identifier}:${storeName}`;
+    if (expirationDate !== undefined && expirationDate <= Date.now()) {
+      ClientLogger.debug(`Skipped hydrating expired atom ${key}`);
+      return;
+    }
+
+    const atoms = this.getAtoms(identifier, storeName);
+    if (atoms.length === 0) {
+      if (this.holdsNewerItem(identifier, storeName, this.storage, entry.lastUpdatedDate)) {
+        ClientLogger.debug(`Kept the newer client value of atom ${key}`);
+        return;
+      }
+      const saved = this.saveItem(
+        identifier,
+        storeName,
+        value,
+        toExpirationOptions(expirationDate),
+      );
+      if (saved && schemaVersion !== undefined) {
+        this.writeItem(
+          this.storage,
+          getSchemaVersionKey(identifier, storeName),
+          String(schemaVersion),
+        );
+      }
+      return;
+    }
 
-        if (compressionResult === null) {
+    if (expirationDate !== undefined) this.hydratingExpirations.set(key, expirationDate);
+    try {
+      atoms.forEach((atom) => {
+        const options = hydratableAtomOptions.get(atom);
+        if (
+          options &&
+          this.holdsNewerItem(identifier, storeName, options.backend, entry.lastUpdatedDate)
+        ) {
+          ClientLogger.debug(`Kept the newer client value of atom ${key}`);
           return;
         }
+        const schema = options?.schema;
+        if (!schema) {
+          store.set(atom, value);
+          return;
+        }
+        const result = migrateValue(schema, value, schemaVersion);
+        if (result.ok) {
+          store.set(atom, result.value);
+        } else {
+          ClientLogger.warn(`Skipped hydrating atom ${key} that does not match its schema`, {
+            error: result.error,
+          });
+        }
+      });
+    } finally {
+      this.hydratingExpirations.delete(key);
+    }
+  },
 
-        let dataToStore: string | Uint8Array = compressionResult.data;
-        const isCompressed = compressionResult.compressed;
+  /**
+   * Whether a backend holds an unexpired value written no earlier than `lastUpdatedDate`,
+   * or any value when the server's write date is unknown. Server renders have no client
+   * values, so they always hydrate.
+   */
+  holdsNewerItem(
+    identifier: string,
+    storeName: string,
+    backend: StorageBackend,
+    lastUpdatedDate: number | undefined,
+  ): boolean {
+    if (typeof window === 'undefined') return false;
+    if (backend.getItem(`${identifier}:${storeName}`) === null) return false;
+    const storedExpiration = backend.getItem(getExpirationKey(identifier, storeName));
+    if (storedExpiration !== null) {
+      const expiration: ResolvedExpiration = JSON.parse(storedExpiration);
+      if (Date.now() > expiration.expirationDate) return false;
+    }
+    if (lastUpdatedDate === undefined) return true;
+    const clientUpdatedDate = ClientLastDateModule.getLastUpdatedDate(
+      (k) => backend.getItem(k),
+      identifier,
+      storeName,
+    );
+    return clientUpdatedDate.getTime() >= lastUpdatedDate;
+  },
 
-        if (this.encryptionPassword) {
-          ClientLogger.debug('Encrypting value', { key, isCompressed });
-          let encrypted: EncryptedData<typeof dataToStore> | null = null;
-          ClientEncryptionModule.encrypt<typeof dataToStore>(dataToStore, (result) => {
-            encrypted = result;
-          });
-          if (encrypted) {
-            dataToStore = JSON.stringify({
-              encryptedData: encrypted,
-              isCompressed: isCompressed,
-            });
-            ClientLogger.debug('Encryption successful', {
-              encryptedLength: JSON.stringify(dataToStore).length,
-            });
-          } else {
-            ClientLogger.error('Encryption failed', { key });
-            return;
-          }
-        } else if (isCompressed) {
-          // If not encrypted but compressed, we need to store the compression flag
-          dataToStore = JSON.stringify({ data: Array.from(dataToStore), isCompressed });
-          ClientLogger.debug('Prepared compressed data for storage', {
-            dataLength: JSON.stringify(dataToStore).length,
-          });
+  /** Sets the backend of atoms created without a `storage` option from now on. */
+  setStorageBackend(backend: StorageBackend | StorageBackendName): void {
+    this.storage = resolveStorageBackend(backend);
+    ClientLogger.debug('Storage backend set', { backend: this.storage.name });
+  },
+
+  /**
+   * Updates a mounted atom once a backend that loads asynchronously is ready and, with
+   * `sync`, when another tab writes it. Returns a function that stops.
+   */
+  watchItem(atom: StoredAtom, sync: boolean | undefined, listener: (value: unknown) => void) {
+    const { identifier, storeName, schema, backend } = atom;
+    const key = `${identifier}:${storeName}`;
+    let watching = true;
+    if (backend.ready && !this.readyBackends.has(backend)) {
+      backend.ready.then(() => {
+        if (!watching) return;
+        try {
+          listener(this.loadItem(identifier, storeName, schema, backend));
+        } catch (error) {
+          ClientLogger.error(`Failed to parse stored value for key ${key}`, { error });
+          cacheEvents.emit('error', { source: 'session', key, operation: 'get', error });
         }
+      });
+    }
+    const unsubscribe = sync ? this.subscribeItem(key, listener) : undefined;
+    return () => {
+      watching = false;
+      unsubscribe?.();
+    };
+  },
 
-        ClientLogger.debug('Storing value', {
-          key,
-          isCompressed,
-          dataLength: JSON.stringify(dataToStore).length,
-        });
-        sessionStorage.setItem(key, JSON.stringify(dataToStore));
-        ClientLogger.debug('Value stored in sessionStorage');
-        ClientLogger.debug('Incrementing set hit count', { key });
-        HitCountModule.incrementSetHitCount(
-          (k) => sessionStorage.getItem(k),
-          (k, v) => sessionStorage.setItem(k, v),
-          key,
-          'atom',
-        );
-        ClientLogger.debug('Updating last dates', { key });
-        ClientLastDateModule.updateLastDates((k, v) => sessionStorage.setItem(k, v), key, 'atom', {
-          lastUpdatedDate: new Date(),
-          lastAccessedDate: new Date(),
-        });
-        ClientLogger.debug(`Saved atom ${key} to storage`, { value });
-        this.itemNotFoundCache.delete(key);
+  /** Starts applying other tabs' writes to the atom's entry, mounted or not. */
+  enableSync(atom: StoredAtom): void {
+    this.syncedAtoms.set(`${atom.identifier}:${atom.storeName}`, atom);
+    this.stopSync ??= tabSync.subscribe((message) => this.applySyncMessage(message));
+  },
+
+  /** Sends a write to the other tabs with the item sealed as it is stored. */
+  publishItem(identifier: string, storeName: string, backend: StorageBackend): void {
+    const key = `${identifier}:${storeName}`;
+    const item = backend.getItem(key);
+    if (item === null) return;
+    tabSync.publish({
+      source: 'session',
+      key,
+      action: 'set',
+      lastUpdatedDate: ClientLastDateModule.getLastUpdatedDate(
+        (k) => backend.getItem(k),
+        identifier,
+        storeName,
+      ).getTime(),
+      item,
+      expiration: backend.getItem(getExpirationKey(identifier, storeName)),
+      schemaVersion: backend.getItem(getSchemaVersionKey(identifier, storeName)),
+    });
+  },
+
+  /** Stores another tab's write in the atom's backend and updates mounted atoms. */
+  applySyncMessage(message: TabSyncMessage): void {
+    const atom = message.source === 'session' ? this.syncedAtoms.get(message.key) : undefined;
+    if (!atom) return;
+    const { identifier, storeName, schema, backend } = atom;
+
+    if (message.action === 'remove' || message.item === undefined) {
+      this.deleteItem(identifier, storeName, backend);
+      this.notifySyncListeners(message.key, undefined);
+      return;
+    }
+
+    const setOrRemove = (key: string, value: string | null | undefined) =>
+      value == null ? backend.removeItem(key) : this.writeItem(backend, key, value);
+    this.writeItem(backend, message.key, message.item);
+    setOrRemove(getExpirationKey(identifier, storeName), message.expiration);
+    setOrRemove(getSchemaVersionKey(identifier, storeName), message.schemaVersion);
+    ClientLastDateModule.updateLastDates(
+      (k, v) => this.writeItem(backend, k, v),
+      identifier,
+      storeName,
+      {
+        lastUpdatedDate: new Date(message.lastUpdatedDate),
       },
-      removeItem: (key) => {
-        ClientLogger.debug(`Removing atom ${key} from storage`);
-        sessionStorage.removeItem(key);
-        ClientLogger.debug(`Removed atom ${key} from storage`);
-        this.itemNotFoundCache.delete(key);
+    );
+    this.itemNotFoundCache.delete(message.key);
+
+    let value: unknown;
+    try {
+      value = this.loadItem(identifier, storeName, schema, backend);
+    } catch (error) {
+      ClientLogger.error(`Failed to read value of ${message.key} written by another tab`, {
+        error,
+      });
+      cacheEvents.emit('error', { source: 'session', key: message.key, operation: 'sync', error });
+    }
+    this.notifySyncListeners(message.key, value);
+  },
+
+  subscribeItem(key: string, listener: (value: unknown) => void): () => void {
+    let listeners = this.syncListeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.syncListeners.set(key, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  notifySyncListeners(key: string, value: unknown): void {
+    this.syncListeners.get(key)?.forEach((listener) => listener(value));
+  },
+
+  /**
+   * Reads the value stored for `identifier:storeName`, or undefined when there is none,
+   * it has expired or `schema` rejects it. Throws when a stored value cannot be read.
+   */
+  loadItem<Value>(
+    identifier: string,
+    storeName: string,
+    schema?: AtomSchema<Value>,
+    storage?: StorageBackend,
+  ): Value | undefined {
+    const backend = storage ?? this.storage;
+    const startTime = performance.now();
+    const key = `${identifier}:${storeName}`;
+    const expirationKey = getExpirationKey(identifier, storeName);
+    const miss = () => {
+      cacheEvents.emit('miss', {
+        ...this.describeEntry(identifier, storeName),
+        durationMs: performance.now() - startTime,
+      });
+      return undefined;
+    };
+
+    const storedExpiration = backend.getItem(expirationKey);
+    if (storedExpiration !== null) {
+      const expiration: ResolvedExpiration = JSON.parse(storedExpiration);
+      if (Date.now() > expiration.expirationDate) {
+        ClientLogger.debug(`Atom ${key} expired, using initial value`);
+        backend.removeItem(key);
+        backend.removeItem(expirationKey);
+        cacheEvents.emit('expire', this.describeEntry(identifier, storeName));
+        return miss();
+      }
+      if (expiration.slidingTtl) {
+        this.writeItem(backend, expirationKey, JSON.stringify(slideExpiration(expiration)));
+      }
+    }
+
+    const item = backend.getItem(key);
+    if (item === null) {
+      return miss();
+    }
+
+    ClientLogger.debug('Parsing stored item', { key });
+    const parsedItem = JSON.parse(item);
+    const decoded = isValueEnvelope(parsedItem)
+      ? this.readEnvelopeItem<Value>(key, parsedItem)
+      : this.readLegacyItem<Value>(key, parsedItem);
+    if (decoded === undefined) {
+      throw new Error(`Stored value for ${key} could not be decrypted or decompressed`);
+    }
+    let result = decoded.value;
+    let rewrite = decoded.stale;
+
+    if (schema) {
+      const schemaVersionKey = getSchemaVersionKey(identifier, storeName);
+      const storedVersion = backend.getItem(schemaVersionKey);
+      const checked = migrateValue(
+        schema,
+        result,
+        storedVersion === null ? undefined : Number(storedVersion),
+      );
+      if (!checked.ok) {
+        this.rejectItem(identifier, storeName, schema, checked.error, backend);
+        return miss();
+      }
+      result = checked.value;
+      if (checked.migrated) {
+        this.writeItem(backend, schemaVersionKey, String(schema.version));
+        rewrite = true;
+      }
+    }
+
+    if (rewrite) {
+      ClientLogger.debug('Rewriting item in the current format', { key });
+      this.storeItem(key, result, backend);
+    }
+
+    HitCountModule.incrementGetHitCount(
+      (k) => backend.getItem(k),
+      (k, v) => this.writeItem(backend, k, v),
+      identifier,
+      storeName,
+    );
+    ClientLastDateModule.updateLastAccessedDate(
+      (k, v) => this.writeItem(backend, k, v),
+      identifier,
+      storeName,
+    );
+    cacheEvents.emit('hit', {
+      ...this.describeEntry(identifier, storeName),
+      durationMs: performance.now() - startTime,
+      size: item.length,
+      fromMemory: false,
+      stale: false,
+    });
+    ClientLogger.debug('Successfully retrieved and processed item', { key, result });
+    return result;
+  },
+
+  describeEntry(identifier: string, storeName: string): CacheEntryEventInit {
+    return { source: 'session', key: `${identifier}:${storeName}`, identifier, storeName };
+  },
+
+  /** Removes an item its schema rejects, keeping a copy first if the schema quarantines. */
+  rejectItem<Value>(
+    identifier: string,
+    storeName: string,
+    schema: AtomSchema<Value>,
+    reason: string,
+    backend: StorageBackend,
+  ): void {
+    const key = `${identifier}:${storeName}`;
+    const quarantine = schema.onInvalid === 'quarantine';
+    const item = backend.getItem(key);
+    if (quarantine && item !== null) {
+      this.writeItem(backend, getQuarantineKey(key), item);
+    }
+    this.deleteItem(identifier, storeName, backend);
+    ClientLogger.warn(`Discarded atom ${key} that does not match its schema`, {
+      reason,
+      quarantined: quarantine,
+    });
+  },
+
+  /**
+   * Stores a value and its bookkeeping; returns false when it could not be stored. Values
+   * written without a schema count as schema version 1.
+   */
+  saveItem<Value>(
+    identifier: string,
+    storeName: string,
+    value: Value,
+    expirationOptions: ExpirationOptions = {},
+    schema?: AtomSchema<Value>,
+    storage?: StorageBackend,
+  ): boolean {
+    const backend = storage ?? this.storage;
+    const startTime = performance.now();
+    const key = `${identifier}:${storeName}`;
+    if (!this.storeItem(key, value, backend)) {
+      return false;
+    }
+    const size = backend.getItem(key)?.length ?? 0;
+    const schemaVersionKey = getSchemaVersionKey(identifier, storeName);
+    if (schema) {
+      this.writeItem(backend, schemaVersionKey, String(schema.version));
+    } else {
+      backend.removeItem(schemaVersionKey);
+    }
+    ClientLogger.debug(`Value stored in ${backend.name} storage`);
+    if (Object.keys(expirationOptions).length > 0) {
+      this.writeItem(
+        backend,
+        getExpirationKey(identifier, storeName),
+        JSON.stringify(resolveExpiration(expirationOptions, this.sessionConfig.cacheMaxAge)),
+      );
+    }
+    ClientLogger.debug('Incrementing set hit count', { key });
+    HitCountModule.incrementSetHitCount(
+      (k) => backend.getItem(k),
+      (k, v) => this.writeItem(backend, k, v),
+      identifier,
+      storeName,
+    );
+    ClientLogger.debug('Updating last dates', { key });
+    ClientLastDateModule.updateLastDates(
+      (k, v) => this.writeItem(backend, k, v),
+      identifier,
+      storeName,
+      {
+        lastUpdatedDate: new Date(),
+        lastAccessedDate: new Date(),
       },
+    );
+    ClientLogger.debug(`Saved atom ${key} to storage`, { value });
+    this.itemNotFoundCache.delete(key);
+    cacheEvents.emit('set', {
+      ...this.describeEntry(identifier, storeName),
+      durationMs: performance.now() - startTime,
+      size,
+    });
+    this.evictIfDue(backend);
+    return true;
+  },
+
+  deleteItem(identifier: string, storeName: string, storage?: StorageBackend): void {
+    const backend = storage ?? this.storage;
+    const startTime = performance.now();
+    const key = `${identifier}:${storeName}`;
+    ClientLogger.debug(`Removing atom ${key} from storage`);
+    backend.removeItem(key);
+    backend.removeItem(getExpirationKey(identifier, storeName));
+    backend.removeItem(getSchemaVersionKey(identifier, storeName));
+    ClientLogger.debug(`Removed atom ${key} from storage`);
+    this.itemNotFoundCache.delete(key);
+    cacheEvents.emit('remove', {
+      ...this.describeEntry(identifier, storeName),
+      durationMs: performance.now() - startTime,
+    });
+  },
+
+  /**
+   * Bulk counterparts of the atom storage operations. Atoms that are already mounted do
+   * not see these writes until they are read from storage again.
+   */
+  getMany<Value>(keys: BatchKey[]): BatchResult<Value | undefined>[] {
+    return mapBatch(keys, ({ identifier, storeName }) =>
+      this.loadItem<Value>(identifier, storeName),
+    );
+  },
+
+  setMany<Value>(items: BatchSetItem<Value>[]): BatchResult[] {
+    return mapBatch(items, ({ identifier, storeName, value, options }) => {
+      if (!this.saveItem(identifier, storeName, value, options)) {
+        throw new Error(`Could not store ${identifier}:${storeName}`);
+      }
+    });
+  },
+
+  removeMany(keys: BatchKey[]): BatchResult[] {
+    return mapBatch(keys, ({ identifier, storeName }) => this.deleteItem(identifier, storeName));
+  },
+
+  /**
+   * Statistics for the atoms in the module's storage backend. Entries are found through
+   * their last-updated dates; the totals count this page's operations on every backend.
+   */
+  stats(options?: CacheStatsOptions): CacheStats {
+    const get = (k: string) => this.storage.getItem(k);
+    const keys: CacheKeyStats[] = this.listEntries(this.storage).map(
+      ({ key, identifier, storeName }) => ({
+        identifier,
+        storeName,
+        hitCount: HitCountModule.getHitCounts(get, identifier, storeName).getHitCount,
+        lastAccessedDate: ClientLastDateModule.getLastAccessedDate(
+          get,
+          identifier,
+          storeName,
+        ).getTime(),
+        size: get(key)?.length ?? 0,
+      }),
+    );
+    const { counts, since } = cacheEvents.getCounts('session');
+    return buildStats(counts, since, summarizeEntries(keys), options);
+  },
+
+  /** Finds the atoms stored in a backend through their last-updated dates. */
+  listEntries(backend: StorageBackend): (BatchKey & { key: string })[] {
+    const entries: (BatchKey & { key: string })[] = [];
+    backend.keys().forEach((key) => {
+      const separator = key.lastIndexOf(':');
+      if (separator <= 0) return;
+      const identifier = key.slice(0, separator);
+      const storeName = key.slice(separator + 1);
+      const lastUpdatedKey = ClientLastDateModule.getLastUpdatedDateKey(identifier, storeName);
+      if (backend.getItem(lastUpdatedKey) === null) return;
+      entries.push({ key, identifier, storeName });
     });
+    return entries;
+  },
+
+  /** Runs an eviction pass on the first write to a backend and every `batchSize` writes after. */
+  evictIfDue(backend: StorageBackend): void {
+    const writes = this.writesSinceEviction.get(backend);
+    if (writes === undefined || writes + 1 >= (this.globalConfig.batchSize ?? 100)) {
+      this.evictItems(backend);
+    } else {
+      this.writesSinceEviction.set(backend, writes + 1);
+    }
+  },
+
+  /**
+   * Removes expired atoms from a backend, then the ones `evictionPolicy` picks while more
+   * than `cacheSize` remain. Atoms without an expiration expire once they have not been
+   * used for `cacheMaxAge`. With `freeBytes`, at least one atom is removed and removal
+   * goes on until that many characters are freed; the atom owning `writingKey` is kept.
+   * Returns the number of atoms removed.
+   */
+  evictItems(backend: StorageBackend, freeBytes = 0, writingKey?: string): number {
+    // Entries of a backend that is still loading are not all known yet
+    if (backend.ready && !this.readyBackends.has(backend)) return 0;
+    this.writesSinceEviction.set(backend, 0);
+    const { cacheSize, cacheMaxAge, evictionPolicy } = this.sessionConfig;
+
+    try {
+      const get = (k: string) => backend.getItem(k);
+      const entries = new Map<string, BatchKey>();
+      const candidates: EvictionCandidate[] = [];
+      this.listEntries(backend).forEach(({ key, identifier, storeName }) => {
+        const item = get(key);
+        if (item === null || writingKey === key || writingKey?.startsWith(`${key}:`)) return;
+        entries.set(key, { identifier, storeName });
+        const { lastUpdatedDate, lastAccessedDate } = ClientLastDateModule.getLastDates(
+          get,
+          identifier,
+          storeName,
+        );
+        const lastUsed = Math.max(lastUpdatedDate.getTime(), lastAccessedDate.getTime());
+        const storedExpiration = get(getExpirationKey(identifier, storeName));
+        candidates.push({
+          key,
+          size: item.length,
+          hitCount: HitCountModule.getHitCounts(get, identifier, storeName).getHitCount,
+          lastAccessedDate: lastUsed,
+          expirationDate:
+            storedExpiration === null
+              ? lastUsed + cacheMaxAge
+              : (JSON.parse(storedExpiration) as ResolvedExpiration).expirationDate,
+        });
+      });
+
+      const totalBytes = candidates.reduce((total, candidate) => total + candidate.size, 0);
+      const victims = selectEvictionVictims(
+        candidates,
+        getEvictionStrategy(evictionPolicy),
+        freeBytes > 0
+          ? {
+              maxEntries: Math.min(cacheSize, candidates.length - 1),
+              maxBytes: totalBytes - freeBytes,
+            }
+          : { maxEntries: cacheSize, maxBytes: Infinity },
+      );
+      victims.forEach((victim) => {
+        const { identifier, storeName } = entries.get(victim.key)!;
+        this.removeEntry(identifier, storeName, backend);
+        cacheEvents.emit('evict', {
+          ...this.describeEntry(identifier, storeName),
+          policy: evictionPolicy,
+          size: victim.size,
+        });
+      });
+      if (victims.length > 0) {
+        ClientLogger.info('Evicted atoms', {
+          backend: backend.name,
+          policy: evictionPolicy,
+          evicted: victims.length,
+          remaining: candidates.length - victims.length,
+        });
+      }
+      return victims.length;
+    } catch (error) {
+      ClientLogger.error('Error evicting atoms', { backend: backend.name, error });
+      cacheEvents.emit('error', { source: 'session', operation: 'evict', error });
+      return 0;
+    }
+  },
+
+  /** Removes an atom together with all of its bookkeeping. */
+  removeEntry(identifier: string, storeName: string, backend: StorageBackend): void {
+    const key = `${identifier}:${storeName}`;
+    [
+      key,
+      getExpirationKey(identifier, storeName),
+      getSchemaVersionKey(identifier, storeName),
+      ClientLastDateModule.getLastUpdatedDateKey(identifier, storeName),
+      ClientLastDateModule.getLastAccessedDateKey(identifier, storeName),
+      HitCountModule.getCacheGetHitCountKey(identifier, storeName),
+      HitCountModule.getCacheSetHitCountKey(identifier, storeName),
+    ].forEach((k) => backend.removeItem(k));
+    this.itemNotFoundCache.delete(key);
+  },
+
+  /**
+   * Writes one key, evicting atoms and trying again while the backend reports that it is
+   * full. Throws when the write fails for another reason or nothing is left to evict.
+   */
+  writeItem(backend: StorageBackend, key: string, value: string): void {
+    if (backend.onWriteError && !this.watchedBackends.has(backend)) {
+      this.watchedBackends.add(backend);
+      backend.onWriteError((k, v, error) => this.retryFailedWrite(backend, k, v, error));
+    }
+    for (;;) {
+      try {
+        backend.setItem(key, value);
+        return;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        ClientLogger.warn('Storage is full, evicting atoms', { key, backend: backend.name });
+        if (this.evictItems(backend, value.length, key) === 0) throw error;
+      }
+    }
+  },
+
+  /**
+   * Handles a write a backend reports as failed after `setItem` returned. When the
+   * storage was full, atoms are evicted and the write is tried again; otherwise, or when
+   * nothing is left to evict, the key is removed so the backend does not keep a value
+   * it could not store.
+   */
+  retryFailedWrite(backend: StorageBackend, key: string, value: string, error: unknown): void {
+    // A later write or removal of the key replaces the failed one
+    if (backend.getItem(key) !== value) return;
+    if (isQuotaExceededError(error)) {
+      ClientLogger.warn('Storage is full, evicting atoms', { key, backend: backend.name });
+      if (this.evictItems(backend, value.length, key) > 0) {
+        backend.setItem(key, value);
+        return;
+      }
+    }
+    ClientLogger.error('Failed to store atom', { key, backend: backend.name, error });
+    cacheEvents.emit('error', { source: 'session', key, operation: 'set', error });
+    backend.removeItem(key);
   },
 
   useAtom: jotaiUseAtom,
 
+  /** Wraps a value in an envelope, encrypts it and writes it; returns false when it could not be stored. */
+  storeItem<Value>(key: string, value: Value, storage?: StorageBackend): boolean {
+    const backend = storage ?? this.storage;
+    const settings = autoTuner.getSettings('session', this.sessionConfig.compression);
+    const envelope = createEnvelope(value, settings, (sample) => {
+      autoTuner.record('session', sample);
+      cacheEvents.emit('compress', { source: 'session', key, codec: settings.codec, ...sample });
+    });
+
+    let sealed: ValueEnvelope = envelope;
+    if (this.keyring.enabled) {
+      ClientLogger.debug('Encrypting value', { key, algorithm: envelope.alg });
+      try {
+        sealed = encryptEnvelope(envelope, this.keyring);
+      } catch (error) {
+        ClientLogger.error('Encryption failed', { key, error });
+        return false;
+      }
+    }
+
+    const dataToStore = JSON.stringify(sealed);
+    ClientLogger.debug('Storing value', {
+      key,
+      algorithm: envelope.alg,
+      dataLength: dataToStore.length,
+    });
+    try {
+      this.writeItem(backend, key, dataToStore);
+    } catch (error) {
+      ClientLogger.error('Failed to store value', { key, backend: backend.name, error });
+      cacheEvents.emit('error', { source: 'session', key, operation: 'set', error });
+      return false;
+    }
+    return true;
+  },
+
+  readEnvelopeItem<Value>(
+    key: string,
+    envelope: ValueEnvelope,
+  ): DecryptionResult<Value> | undefined {
+    if (envelope.enc && !this.keyring.enabled) {
+      ClientLogger.warn('Item is encrypted but no encryption key is configured', { key });
+      return undefined;
+    }
+
+    let opened: DecryptionResult<ValueEnvelope>;
+    try {
+      opened = decryptEnvelope(envelope, this.keyring);
+    } catch (error) {
+      ClientLogger.warn('Decryption failed, using initial value', { key, error });
+      cacheEvents.emit('decrypt-failure', { source: 'session', key });
+      return undefined;
+    }
+
+    const { value, stale } = opened;
+    return { value: readEnvelope<Value>(value), stale };
+  },
+
+  /** Reads items written before the envelope format; they are always rewritten. */
+  readLegacyItem<Value>(key: string, parsedItem: unknown): DecryptionResult<Value> | undefined {
+    if (this.keyring.enabled) {
+      ClientLogger.debug('Decrypting legacy item', { key });
+      try {
+        parsedItem = this.keyring.decrypt<Value>(parsedItem as VersionedEncryptedData<Value>).value;
+      } catch (error) {
+        ClientLogger.warn('Decryption failed, using initial value', { key, error });
+        cacheEvents.emit('decrypt-failure', { source: 'session', key });
+        return undefined;
+      }
+    }
+
+    ClientLogger.debug('Decompressing legacy item', { key });
+    const decompressed = ClientCompressionModule.decompressData(parsedItem);
+    if (decompressed === null) {
+      ClientLogger.warn('Decompression failed, using initial value', { key });
+      return undefined;
+    }
+
+    let result: Value;
+    if (typeof decompressed === 'string') {
+      result = JSON.parse(decompressed);
+    } else if (decompressed instanceof Uint8Array) {
+      // If decompressed is a Uint8Array, convert it to a string
+      const decoder = new TextDecoder();
+      result = JSON.parse(decoder.decode(decompressed));
+    } else {
+      // If decompressed is neither string nor Uint8Array, assume it's already the correct type
+      result = decompressed as Value;
+    }
+    return { value: result, stale: true };
+  },
+
+  listLegacyAtomKeys(): string[] {
+    return getSessionStorageKeys().filter((key) => {
+      const match = LEGACY_ATOM_KEY_PATTERN.exec(key);
+      return match !== null && match[2] === undefined;
+    });
+  },
+
+  /**
+   * Moves a value stored under a random `atom-xxxx` key by earlier versions to the
+   * stable `identifier:storeName` key in the module's storage backend, then removes the
+   * legacy key and its bookkeeping.
+   */
+  migrateLegacyAtom(legacyKey: string, identifier: string, storeName: string): boolean {
+    const item = sessionStorage.getItem(legacyKey);
+    if (!LEGACY_ATOM_KEY_PATTERN.test(legacyKey) || item === null) {
+      ClientLogger.warn('No legacy atom found to migrate', { legacyKey });
+      return false;
+    }
+
+    this.storage.setItem(`${identifier}:${storeName}`, item);
+    const legacyExpiration = sessionStorage.getItem(getExpirationKey(legacyKey, 'atom'));
+    if (legacyExpiration !== null) {
+      this.storage.setItem(getExpirationKey(identifier, storeName), legacyExpiration);
+    }
+    ClientLastDateModule.updateLastDates(
+      (k, v) => this.storage.setItem(k, v),
+      identifier,
+      storeName,
+      { lastUpdatedDate: new Date() },
+    );
+
+    this.removeLegacyKeys((key) => LEGACY_ATOM_KEY_PATTERN.exec(key)?.[1] === legacyKey);
+    ClientLogger.info('Migrated legacy atom', { legacyKey, identifier, storeName });
+    return true;
+  },
+
+  /** Removes every orphaned `atom-xxxx` value and its bookkeeping keys. */
+  cleanupLegacyAtoms(): number {
+    const removed = this.removeLegacyKeys((key) => LEGACY_ATOM_KEY_PATTERN.test(key));
+    ClientLogger.info('Removed legacy atom keys', { removed });
+    return removed;
+  },
+
+  removeLegacyKeys(predicate: (key: string) => boolean): number {
+    const keys = getSessionStorageKeys().filter(predicate);
+    keys.forEach((key) => sessionStorage.removeItem(key));
+    return keys.length;
+  },
+
   updateConfig(
     newSessionConfig?: Partial<SessionConfig>,
     newGlobalConfig?: Partial<GlobalConfig>,
@@ -217,10 +1029,13 @@ const JotaiClientModule = {
     if (newGlobalConfig) {
       this.globalConfig.initialize(newGlobalConfig);
     }
-    if (newEncryptionPassword !== undefined) {
-      this.encryptionPassword = newEncryptionPassword;
+    if (newEncryptionPassword === '') {
+      this.keyring.clear();
+    } else if (newEncryptionPassword !== undefined) {
+      // The old key stays in the keyring so existing atoms remain readable
+      this.keyring.addKey(newEncryptionPassword);
     }
-    this.initialize(this.encryptionPassword);
+    this.initialize();
     ClientLogger.debug('Configuration updated and modules reinitialized');
   },
 };
@@ -0,0 +1,270 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from 'crypto';
+import { ServerEncryptionModule, EncryptedData } from 'goobs-encryption';
+import { EncryptionKey } from '../types';
+
+// Parameters of goobs-encryption's ClientEncryptionModule, so either can read the other's values
+const KEY_DERIVATION_ITERATIONS = 100000;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/** Encrypted data tagged with the id of the key it was encrypted under. */
+export interface VersionedEncryptedData<T> {
+  keyId: string;
+  data: EncryptedData<T>;
+}
+
+export interface KeyringOptions {
+  keyId?: string;
+  previousKeys?: EncryptionKey[];
+}
+
+export interface DecryptionResult<T> {
+  value: T;
+  /** True when the value was not encrypted under the current key and should be re-encrypted. */
+  stale: boolean;
+}
+
+export class UnknownEncryptionKeyError extends Error {
+  constructor(public readonly keyId: string) {
+    super(`Encryption key ${keyId} is not in the keyring`);
+    this.name = 'UnknownEncryptionKeyError';
+  }
+}
+
+export function isVersionedEncryptedData<T>(data: unknown): data is VersionedEncryptedData<T> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as VersionedEncryptedData<T>).keyId === 'string' &&
+    typeof (data as VersionedEncryptedData<T>).data === 'object'
+  );
+}
+
+/**
+ * Holds the current encryption key plus the keys it replaced. Values are always
+ * encrypted under the current key; older keys are only used to read values written
+ * before a rotation.
+ */
+export class Keyring {
+  // Current key first, then previous keys from newest to oldest
+  private keys: EncryptionKey[] = [];
+  // AES keys derived from each key, by salt
+  private derivedKeys = new WeakMap<EncryptionKey, Map<string, Buffer>>();
+  // Salt `encrypt` uses under each key
+  private encryptionSalts = new WeakMap<EncryptionKey, Buffer>();
+
+  constructor(encryptionPassword?: string, options: KeyringOptions = {}) {
+    if (encryptionPassword) {
+      this.addKey(encryptionPassword, options.keyId);
+    }
+    options.previousKeys?.forEach((key) => this.addPreviousKey(key));
+  }
+
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  get currentKey(): EncryptionKey | undefined {
+    return this.keys[0];
+  }
+
+  get previousKeys(): EncryptionKey[] {
+    return this.keys.slice(1);
+  }
+
+  getKey(keyId: string): EncryptionKey | undefined {
+    return this.keys.find((key) => key.keyId === keyId);
+  }
+
+  /**
+   * Makes `encryptionPassword` the current key, keeping the old current key for reads.
+   * Adding the current password again is a no-op. Without a `keyId` the next free
+   * `v<n>` id is used.
+   */
+  addKey(encryptionPassword: string, keyId?: string): EncryptionKey {
+    const current = this.currentKey;
+    if (
+      current &&
+      current.encryptionPassword === encryptionPassword &&
+      (keyId === undefined || keyId === current.keyId)
+    ) {
+      return current;
+    }
+
+    const existing = keyId === undefined ? undefined : this.getKey(keyId);
+    if (existing && existing.encryptionPassword !== encryptionPassword) {
+      throw new Error(`Encryption key ${keyId} already exists with a different password`);
+    }
+
+    const key = existing ?? { keyId: keyId ?? this.nextKeyId(), encryptionPassword };
+    this.keys = [key, ...this.keys.filter((other) => other !== key)];
+    return key;
+  }
+
+  /** Adds a retired key that can still decrypt but is never used to encrypt. */
+  addPreviousKey(key: EncryptionKey): void {
+    if (!this.getKey(key.keyId)) {
+      this.keys.push({ ...key });
+    }
+  }
+
+  removeKey(keyId: string): void {
+    this.keys = this.keys.filter((key) => key.keyId !== keyId);
+  }
+
+  clear(): void {
+    this.keys = [];
+  }
+
+  isStale(data: unknown): boolean {
+    return !isVersionedEncryptedData(data) || data.keyId !== this.currentKey?.keyId;
+  }
+
+  private nextKeyId(): string {
+    const versions = this.keys
+      .map((key) => /^v(\d+)$/.exec(key.keyId))
+      .map((match) => (match ? parseInt(match[1], 10) : 0));
+    return `v${Math.max(0, ...versions) + 1}`;
+  }
+
+  private requireCurrentKey(): EncryptionKey {
+    const current = this.currentKey;
+    if (!current) {
+      throw new Error('Cannot encrypt: the keyring has no encryption key');
+    }
+    return current;
+  }
+
+  /**
+   * Keys to try for a stored value: the key named in a versioned envelope, or every
+   * key, newest first, for values written before envelopes were versioned.
+   */
+  private getDecryptionKeys(
+    data: VersionedEncryptedData<unknown> | EncryptedData<unknown>,
+  ): Array<{ key: EncryptionKey; encrypted: EncryptedData<unknown> }> {
+    if (isVersionedEncryptedData(data)) {
+      const key = this.getKey(data.keyId);
+      if (!key) {
+        throw new UnknownEncryptionKeyError(data.keyId);
+      }
+      return [{ key, encrypted: data.data }];
+    }
+    return this.keys.map((key) => ({ key, encrypted: data }));
+  }
+
+  async encryptAsync<T>(value: T): Promise<VersionedEncryptedData<T>> {
+    const key = this.requireCurrentKey();
+    // Call with a per-key context rather than re-initializing the shared module, so
+    // concurrent operations under different keys cannot interfere
+    const data = await ServerEncryptionModule.encrypt.call(
+      { ...ServerEncryptionModule, encryptionPassword: key.encryptionPassword },
+      value,
+    );
+    return { keyId: key.keyId, data: data as EncryptedData<T> };
+  }
+
+  /** Decrypts `data`; `T` is the type of the value that was encrypted. */
+  async decryptAsync<T>(
+    data: VersionedEncryptedData<unknown> | EncryptedData<unknown>,
+  ): Promise<DecryptionResult<T>> {
+    let lastError: unknown;
+    for (const { key, encrypted } of this.getDecryptionKeys(data)) {
+      try {
+        const value = await ServerEncryptionModule.decrypt.call(
+          { ...ServerEncryptionModule, encryptionPassword: key.encryptionPassword },
+          encrypted,
+        );
+        return { value: value as T, stale: key !== this.currentKey };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw new Error(`Failed to decrypt value: ${lastError}`);
+  }
+
+  /** Derives the AES key of `key` for `salt`; derivation is slow, so keys are kept. */
+  private deriveKey(key: EncryptionKey, salt: Buffer): Buffer {
+    let bySalt = this.derivedKeys.get(key);
+    if (!bySalt) {
+      bySalt = new Map();
+      this.derivedKeys.set(key, bySalt);
+    }
+    const saltId = salt.toString('hex');
+    let derived = bySalt.get(saltId);
+    if (!derived) {
+      derived = pbkdf2Sync(
+        key.encryptionPassword,
+        salt,
+        KEY_DERIVATION_ITERATIONS,
+        KEY_LENGTH,
+        'sha256',
+      );
+      bySalt.set(saltId, derived);
+    }
+    return derived;
+  }
+
+  /**
+   * Encrypts `value` with AES-256-GCM under the current key, synchronously, for client
+   * stores whose reads and writes are synchronous. Values encrypted under one key share
+   * a salt, with a fresh IV each, so the key is only derived once.
+   */
+  encrypt<T>(value: T): VersionedEncryptedData<T> {
+    const key = this.requireCurrentKey();
+    let salt = this.encryptionSalts.get(key);
+    if (!salt) {
+      salt = randomBytes(SALT_LENGTH);
+      this.encryptionSalts.set(key, salt);
+    }
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.deriveKey(key, salt), iv);
+    const encryptedValue = Buffer.concat([
+      cipher.update(JSON.stringify(value), 'utf8'),
+      cipher.final(),
+    ]);
+    return {
+      keyId: key.keyId,
+      // goobs-encryption types the ciphertext as the type of the value it encrypted
+      data: {
+        encryptedValue: encryptedValue as unknown as T,
+        iv,
+        salt,
+        authTag: cipher.getAuthTag(),
+      },
+    };
+  }
+
+  /**
+   * Decrypts `data` synchronously; `T` is the type of the value that was encrypted.
+   * Throws when no key of the keyring opens it.
+   */
+  decrypt<T>(data: VersionedEncryptedData<unknown> | EncryptedData<unknown>): DecryptionResult<T> {
+    let lastError: unknown;
+    for (const { key, encrypted } of this.getDecryptionKeys(data)) {
+      try {
+        // Values stored as JSON before envelopes hold their Buffers as { type, data }
+        const toBuffer = (bytes: unknown) => Buffer.from(bytes as Uint8Array);
+        const decipher = createDecipheriv(
+          'aes-256-gcm',
+          this.deriveKey(key, toBuffer(encrypted.salt)),
+          toBuffer(encrypted.iv),
+        );
+        decipher.setAuthTag(toBuffer(encrypted.authTag));
+        const decrypted = Buffer.concat([
+          decipher.update(toBuffer(encrypted.encryptedValue)),
+          decipher.final(),
+        ]);
+        return {
+          value: JSON.parse(decrypted.toString('utf8')) as T,
+          stale: key !== this.currentKey,
+        };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw new Error(`Failed to decrypt value: ${lastError}`);
+  }
+}
+
+export default Keyring;
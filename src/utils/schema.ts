@@ -0,0 +1,86 @@
+import { AtomSchema } from '../types';
+
+// Stored entries without a schema version predate the atom's schema
+const UNVERSIONED = 1;
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+/** Outcome of bringing a stored value up to the current schema. */
+export type SchemaResult<T> =
+  | { ok: true; value: T; migrated: boolean }
+  | { ok: false; error: string };
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Runs the schema's validator; values pass unchecked when it has none. */
+export function validateValue<T>(schema: AtomSchema<T>, value: unknown): T {
+  const { validate } = schema;
+  if (!validate) return value as T;
+  try {
+    return typeof validate === 'function' ? validate(value) : validate.parse(value);
+  } catch (error) {
+    throw new SchemaError(
+      `Value does not match schema version ${schema.version}: ${describeError(error)}`,
+    );
+  }
+}
+
+/**
+ * Migrates a value stored at `storedVersion` step by step to the schema's version and
+ * validates the result. Fails for values from a newer version or with a missing step.
+ */
+export function migrateValue<T>(
+  schema: AtomSchema<T>,
+  value: unknown,
+  storedVersion: number = UNVERSIONED,
+): SchemaResult<T> {
+  if (storedVersion > schema.version) {
+    return {
+      ok: false,
+      error: `Stored at schema version ${storedVersion}, newer than ${schema.version}`,
+    };
+  }
+
+  let current = value;
+  for (let version = storedVersion; version < schema.version; version++) {
+    const migrate = schema.migrations?.[version];
+    if (!migrate) {
+      return { ok: false, error: `No migration from schema version ${version}` };
+    }
+    try {
+      current = migrate(current);
+    } catch (error) {
+      return {
+        ok: false,
+        error: `Migration from schema version ${version} failed: ${describeError(error)}`,
+      };
+    }
+  }
+
+  try {
+    return {
+      ok: true,
+      value: validateValue(schema, current),
+      migrated: storedVersion !== schema.version,
+    };
+  } catch (error) {
+    return { ok: false, error: describeError(error) };
+  }
+}
+
+/** Session storage key holding the schema version of a jotai atom's value. */
+export function getSchemaVersionKey(identifier: string, storeName: string): string {
+  return `${identifier}:${storeName}:schemaVersion`;
+}
+
+/** Key under which a rejected entry is kept when its schema quarantines invalid entries. */
+export function getQuarantineKey(key: string): string {
+  return `quarantine:${key}`;
+}
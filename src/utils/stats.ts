@@ -0,0 +1,168 @@
+import { CacheKeyStats, CacheStats, CacheStatsOptions, CacheStoreStats } from '../types';
+import { CacheEventInit, CacheEventName } from './events';
+
+const DEFAULT_TOP = 10;
+const DEFAULT_STALE_AFTER = 24 * 60 * 60 * 1000;
+// Keys kept in each list of an entry summary, so `top` can be raised without a rescan
+const SUMMARY_KEYS = 100;
+
+/** Running totals of the events one source has emitted. */
+export interface CacheCounts {
+  hits: number;
+  misses: number;
+  sets: number;
+  removes: number;
+  expirations: number;
+  evictions: number;
+  errors: number;
+  compressions: number;
+  compressionInputBytes: number;
+  compressionSavedBytes: number;
+}
+
+/** Per-store totals and the keys worth reporting, from one pass over the entries. */
+export interface EntrySummary {
+  stores: Record<string, CacheStoreStats>;
+  hottestKeys: CacheKeyStats[];
+  /** Least recently read keys first. */
+  leastRecentKeys: CacheKeyStats[];
+  computedAt: number;
+}
+
+export function emptyCounts(): CacheCounts {
+  return {
+    hits: 0,
+    misses: 0,
+    sets: 0,
+    removes: 0,
+    expirations: 0,
+    evictions: 0,
+    errors: 0,
+    compressions: 0,
+    compressionInputBytes: 0,
+    compressionSavedBytes: 0,
+  };
+}
+
+export function addCounts(a: CacheCounts, b: CacheCounts): CacheCounts {
+  const sum = emptyCounts();
+  (Object.keys(sum) as (keyof CacheCounts)[]).forEach((field) => {
+    sum[field] = (a[field] ?? 0) + (b[field] ?? 0);
+  });
+  return sum;
+}
+
+export function hasCounts(counts: CacheCounts): boolean {
+  return Object.values(counts).some((value) => value > 0);
+}
+
+/** Adds one emitted event to `counts`. */
+export function countEvent<E extends CacheEventName>(
+  counts: CacheCounts,
+  name: E,
+  event: CacheEventInit<E>,
+): void {
+  switch (name) {
+    case 'hit':
+      counts.hits++;
+      break;
+    case 'miss':
+      counts.misses++;
+      break;
+    case 'set':
+      counts.sets++;
+      break;
+    case 'remove':
+      counts.removes++;
+      break;
+    case 'expire':
+      counts.expirations++;
+      break;
+    case 'evict':
+      counts.evictions++;
+      break;
+    case 'error':
+      counts.errors++;
+      break;
+    case 'compress': {
+      const { inputBytes, outputBytes } = event as CacheEventInit<'compress'>;
+      counts.compressions++;
+      counts.compressionInputBytes += inputBytes;
+      // Compressed output is only kept when it is smaller
+      counts.compressionSavedBytes += Math.max(0, inputBytes - outputBytes);
+      break;
+    }
+  }
+}
+
+/** Adds per-store changes in entries and bytes to `stores`, dropping stores left empty. */
+export function applyStoreChanges(
+  stores: Record<string, CacheStoreStats>,
+  changes: Record<string, CacheStoreStats>,
+): Record<string, CacheStoreStats> {
+  const next = { ...stores };
+  Object.entries(changes).forEach(([storeName, change]) => {
+    const entries = (next[storeName]?.entries ?? 0) + change.entries;
+    const bytes = (next[storeName]?.bytes ?? 0) + change.bytes;
+    if (entries > 0) {
+      next[storeName] = { entries, bytes: Math.max(0, bytes) };
+    } else {
+      delete next[storeName];
+    }
+  });
+  return next;
+}
+
+export function summarizeEntries(keys: CacheKeyStats[], now = Date.now()): EntrySummary {
+  const stores: Record<string, CacheStoreStats> = {};
+  keys.forEach(({ storeName, size }) => {
+    const store = (stores[storeName] ??= { entries: 0, bytes: 0 });
+    store.entries++;
+    store.bytes += size;
+  });
+  return {
+    stores,
+    hottestKeys: [...keys].sort((a, b) => b.hitCount - a.hitCount).slice(0, SUMMARY_KEYS),
+    leastRecentKeys: [...keys]
+      .sort((a, b) => a.lastAccessedDate - b.lastAccessedDate)
+      .slice(0, SUMMARY_KEYS),
+    computedAt: now,
+  };
+}
+
+export function buildStats(
+  counts: CacheCounts,
+  since: number,
+  summary: EntrySummary | undefined,
+  { top = DEFAULT_TOP, staleAfter = DEFAULT_STALE_AFTER }: CacheStatsOptions = {},
+  now = Date.now(),
+): CacheStats {
+  const reads = counts.hits + counts.misses;
+  return {
+    hits: counts.hits,
+    misses: counts.misses,
+    hitRatio: reads > 0 ? counts.hits / reads : 0,
+    sets: counts.sets,
+    removes: counts.removes,
+    expirations: counts.expirations,
+    evictions: counts.evictions,
+    errors: counts.errors,
+    stores: summary?.stores ?? {},
+    hottestKeys: summary?.hottestKeys.slice(0, top) ?? [],
+    staleKeys:
+      summary?.leastRecentKeys
+        .filter((key) => key.lastAccessedDate < now - staleAfter)
+        .slice(0, top) ?? [],
+    compression: {
+      attempts: counts.compressions,
+      inputBytes: counts.compressionInputBytes,
+      savedBytes: counts.compressionSavedBytes,
+      savingsRatio:
+        counts.compressionInputBytes > 0
+          ? counts.compressionSavedBytes / counts.compressionInputBytes
+          : 0,
+    },
+    since,
+    entriesComputedAt: summary?.computedAt,
+  };
+}
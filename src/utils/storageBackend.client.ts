@@ -0,0 +1,238 @@
+'use client';
+
+import { ClientLogger } from 'goobs-testing';
+
+/**
+ * Key-value storage jotai atoms keep their values and bookkeeping in. Reads and writes are
+ * synchronous so that every backend shares the same compression, encryption and
+ * bookkeeping code.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+  /**
+   * Set by backends that load their entries asynchronously; resolves once they can be
+   * read. Atoms show their initial value until then.
+   */
+  readonly ready?: Promise<void>;
+  /**
+   * Set by backends that persist asynchronously. Calls `handler` with writes that failed
+   * after `setItem` returned, e.g. because the storage was full, and returns a function
+   * that stops it.
+   */
+  onWriteError?(handler: WriteErrorHandler): () => void;
+}
+
+export type WriteErrorHandler = (key: string, value: string, error: unknown) => void;
+
+export type StorageBackendName = 'session' | 'local' | 'indexedDB' | 'memory';
+
+/** Backend over a Web Storage area such as `sessionStorage` or `localStorage`. */
+export class WebStorageBackend implements StorageBackend {
+  constructor(
+    readonly name: string,
+    private getStorage: () => Storage,
+  ) {}
+
+  getItem(key: string): string | null {
+    return this.getStorage().getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.getStorage().setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.getStorage().removeItem(key);
+  }
+
+  keys(): string[] {
+    const storage = this.getStorage();
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/** Backend that keeps entries for the lifetime of the page. */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Backend over an IndexedDB object store. Its entries are loaded into memory when it is
+ * created, so reads are synchronous once `ready` resolves; writes are applied in memory
+ * at once and reach IndexedDB asynchronously, in order.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly name = 'indexedDB';
+  readonly ready: Promise<void>;
+  private entries = new Map<string, string>();
+  // Keys written or removed before loading finished, which the loaded entries must not undo
+  private changedBeforeLoad: Set<string> | undefined = new Set();
+  private database: Promise<IDBDatabase | undefined>;
+  private writeErrorHandlers = new Set<WriteErrorHandler>();
+
+  constructor(
+    private databaseName = 'goobs-cache',
+    private objectStoreName = 'atoms',
+  ) {
+    this.database = this.open();
+    this.ready = this.load();
+  }
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+    this.changedBeforeLoad?.add(key);
+    this.persist(key, (store) => store.put(value, key), value);
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+    this.changedBeforeLoad?.add(key);
+    this.persist(key, (store) => store.delete(key));
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  onWriteError(handler: WriteErrorHandler): () => void {
+    this.writeErrorHandlers.add(handler);
+    return () => this.writeErrorHandlers.delete(handler);
+  }
+
+  private open(): Promise<IDBDatabase | undefined> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(undefined);
+    }
+    return new Promise<IDBDatabase | undefined>((resolve) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.objectStoreName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        ClientLogger.error('Failed to open IndexedDB; atoms are kept in memory only', {
+          databaseName: this.databaseName,
+          error: request.error,
+        });
+        resolve(undefined);
+      };
+    });
+  }
+
+  private async load(): Promise<void> {
+    const database = await this.database;
+    if (database) {
+      await new Promise<void>((resolve) => {
+        const request = database
+          .transaction(this.objectStoreName, 'readonly')
+          .objectStore(this.objectStoreName)
+          .openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          const key = String(cursor.key);
+          if (!this.changedBeforeLoad?.has(key)) {
+            this.entries.set(key, cursor.value);
+          }
+          cursor.continue();
+        };
+        request.onerror = () => {
+          ClientLogger.error('Failed to load atoms from IndexedDB', { error: request.error });
+          resolve();
+        };
+      });
+    }
+    this.changedBeforeLoad = undefined;
+  }
+
+  /**
+   * Applies a change in its own transaction. Quota errors abort the transaction rather
+   * than failing the request, so failures are taken from the abort and, for writes,
+   * passed to the write error handlers.
+   */
+  private persist(
+    key: string,
+    change: (store: IDBObjectStore) => IDBRequest,
+    value?: string,
+  ): void {
+    const fail = (error: unknown) => {
+      if (value !== undefined && this.writeErrorHandlers.size > 0) {
+        this.writeErrorHandlers.forEach((handler) => handler(key, value, error));
+      } else {
+        ClientLogger.error('Failed to write atom to IndexedDB', { key, error });
+      }
+    };
+    this.database
+      .then((database) => {
+        if (!database) return;
+        const transaction = database.transaction(this.objectStoreName, 'readwrite');
+        change(transaction.objectStore(this.objectStoreName));
+        transaction.onabort = () => fail(transaction.error);
+      })
+      .catch(fail);
+  }
+}
+
+const namedBackends: Partial<Record<StorageBackendName, StorageBackend>> = {};
+
+function createBackend(name: StorageBackendName): StorageBackend {
+  switch (name) {
+    case 'session':
+      return new WebStorageBackend('session', () => sessionStorage);
+    case 'local':
+      return new WebStorageBackend('local', () => localStorage);
+    case 'indexedDB':
+      return new IndexedDBStorageBackend();
+    case 'memory':
+      return new MemoryStorageBackend();
+    default:
+      throw new Error(`Unknown storage backend: ${name}`);
+  }
+}
+
+/** Returns the backend given, or the shared instance of a named one. */
+export function resolveStorageBackend(
+  backend: StorageBackend | StorageBackendName,
+): StorageBackend {
+  if (typeof backend !== 'string') return backend;
+  return (namedBackends[backend] ??= createBackend(backend));
+}
+
+/** Whether a write failed because the storage is full. */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { name, code } = error as { name?: string; code?: number };
+  // Firefox names the error differently, and older browsers only set the legacy code
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22;
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { ClientLogger } from 'goobs-testing';
+
+const CHANNEL_NAME = 'goobs-cache';
+// localStorage key messages pass through where BroadcastChannel is not available
+const STORAGE_KEY = 'goobs-cache:sync';
+
+export type TabSyncSource = 'session' | 'cookie';
+
+export interface TabSyncMessage {
+  source: TabSyncSource;
+  /** Storage key: `identifier:storeName` in session storage, the cookie name for cookies. */
+  key: string;
+  action: 'set' | 'remove';
+  /** When the sending tab wrote the entry; of two writes, the later one wins. */
+  lastUpdatedDate: number;
+  /**
+   * Session entries in their stored form, so encrypted values stay encrypted. Cookies are
+   * shared by all tabs, so their messages carry no value and receivers read the cookie.
+   */
+  item?: string;
+  /** Stored bookkeeping of session entries; null when the entry has none. */
+  expiration?: string | null;
+  schemaVersion?: string | null;
+  /** Tab that sent the message; breaks ties between writes with the same date. */
+  origin: string;
+}
+
+export type TabSyncHandler = (message: TabSyncMessage) => void;
+
+/**
+ * Passes writes between the tabs of one origin over a `BroadcastChannel`, or through
+ * `storage` events where that is not available. Messages about an entry that are older
+ * than the latest write this tab has made or seen are dropped (last writer wins).
+ */
+export class TabSync {
+  readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private channel?: BroadcastChannel;
+  private connected = false;
+  private handlers = new Set<TabSyncHandler>();
+  private latest = new Map<string, Pick<TabSyncMessage, 'lastUpdatedDate' | 'origin'>>();
+
+  publish(init: Omit<TabSyncMessage, 'origin'>): void {
+    if (!this.connect()) return;
+    const message: TabSyncMessage = { ...init, origin: this.tabId };
+    this.record(message);
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      ClientLogger.warn('Could not notify other tabs of a write', { key: message.key, error });
+    }
+  }
+
+  /** Calls `handler` with the writes of other tabs; returns a function that unsubscribes. */
+  subscribe(handler: TabSyncHandler): () => void {
+    this.connect();
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  private connect(): boolean {
+    if (this.connected) return true;
+    if (typeof window === 'undefined') return false;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) => this.receive(event.data);
+    } else {
+      window.addEventListener('storage', (event: StorageEvent) => {
+        // Removing the message right after writing it fires a second event without a value
+        if (event.key === STORAGE_KEY && event.newValue) {
+          this.receive(JSON.parse(event.newValue));
+        }
+      });
+    }
+    this.connected = true;
+    return true;
+  }
+
+  private receive(message: TabSyncMessage): void {
+    if (message.origin === this.tabId || !this.isNewer(message)) return;
+    this.record(message);
+    this.handlers.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        ClientLogger.error('Failed to apply a write from another tab', {
+          key: message.key,
+          error,
+        });
+      }
+    });
+  }
+
+  private isNewer({ source, key, lastUpdatedDate, origin }: TabSyncMessage): boolean {
+    const latest = this.latest.get(`${source}:${key}`);
+    return (
+      !latest ||
+      lastUpdatedDate > latest.lastUpdatedDate ||
+      (lastUpdatedDate === latest.lastUpdatedDate && origin > latest.origin)
+    );
+  }
+
+  private record({ source, key, lastUpdatedDate, origin }: TabSyncMessage): void {
+    this.latest.set(`${source}:${key}`, { lastUpdatedDate, origin });
+  }
+}
+
+/** Connection to the other tabs, shared by the client stores. */
+export const tabSync = new TabSync();
+
+export default tabSync;